@@ -0,0 +1,11 @@
+// GENERATED DO NOT EDIT
+// This source data is located at '..\src\opcodes\cursors.jsonc'
+// run `npm run filetypes` to rebuild
+
+export type cursors = {
+	sprite?: number | null
+	hotspot?: [
+		number,
+		number,
+	] | null
+};
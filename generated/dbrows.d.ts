@@ -8,10 +8,8 @@ export type dbrows = {
 		columndata: {
 			id: number,
 			flags: number,
-			columns: {
-				type: number,
-				value: (string|number)[],
-			}[],
+			types: number[],
+			values: (string|number|[number,number])[][],
 		}[],
 	} | null
 	table?: number | null
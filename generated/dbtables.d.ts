@@ -8,11 +8,8 @@ export type dbtables = {
 		columndata: {
 			id: number,
 			flags: number,
-			columns: {
-				type: number,
-				unk: number | null,
-				default: (string|number) | null,
-			}[],
+			types: number[],
+			defaults: (string|number|[number,number])[][] | null,
 		}[],
 	} | null
 };
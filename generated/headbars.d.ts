@@ -0,0 +1,17 @@
+// GENERATED DO NOT EDIT
+// This source data is located at '..\src\opcodes\headbars.jsonc'
+// run `npm run filetypes` to rebuild
+
+export type headbars = {
+	unknown_01?: number | null
+	unknown_02?: number | null
+	unknown_03?: number | null
+	unknown_04?: true | null
+	unknown_05?: number | null
+	unknown_06?: number | null
+	front_sprite?: number | null
+	back_sprite?: number | null
+	unknown_0b?: number | null
+	width?: number | null
+	padding?: number | null
+};
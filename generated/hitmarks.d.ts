@@ -0,0 +1,38 @@
+// GENERATED DO NOT EDIT
+// This source data is located at '..\src\opcodes\hitmarks.jsonc'
+// run `npm run filetypes` to rebuild
+
+export type hitmarks = {
+	font?: number | null
+	text_color?: number | null
+	icon_sprite?: number | null
+	left_sprite?: number | null
+	middle_sprite?: number | null
+	right_sprite?: number | null
+	scroll_x?: number | null
+	text?: string | null
+	duration?: number | null
+	scroll_y?: number | null
+	no_fade?: true | null
+	unknown_0c?: number | null
+	text_offset_y?: number | null
+	fade_start?: number | null
+	morphs?: {
+		varbit: number,
+		varp: number,
+		ids: number[],
+		last: number,
+	} | null
+	morphs_default?: {
+		varbit: number,
+		varp: number,
+		default: number,
+		ids: number[],
+		last: number,
+	} | null
+	extra?: {
+		prop: number,
+		intvalue: number | null,
+		stringvalue: string | null,
+	}[] | null
+};
@@ -0,0 +1,11 @@
+// GENERATED DO NOT EDIT
+// This source data is located at '..\src\opcodes\inventories.jsonc'
+// run `npm run filetypes` to rebuild
+
+export type inventories = {
+	size?: number | null
+	stock?: {
+		item: number,
+		amount: number,
+	}[] | null
+};
@@ -0,0 +1,10 @@
+// GENERATED DO NOT EDIT
+// This source data is located at '..\src\opcodes\lights.jsonc'
+// run `npm run filetypes` to rebuild
+
+export type lights = {
+	function?: number | null
+	period?: number | null
+	amplitude?: number | null
+	offset?: number | null
+};
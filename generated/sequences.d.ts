@@ -9,9 +9,9 @@ export type sequences = {
 		frameidhi: number,
 	}[] | null
 	unknown_02?: number | null
-	unknown_03?: number[] | null
+	interleave_labels?: number[] | null
 	unknown_04?: true | null
-	unknown_05?: number | null
+	priority?: number | null
 	unknown_06?: number | null
 	unknown_07?: number | null
 	unknown_08?: number | null
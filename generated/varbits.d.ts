@@ -0,0 +1,11 @@
+// GENERATED DO NOT EDIT
+// This source data is located at '..\src\opcodes\varbits.jsonc'
+// run `npm run filetypes` to rebuild
+
+export type varbits = {
+	varid?: number | null
+	bits?: [
+		number,
+		number,
+	] | null
+};
@@ -0,0 +1,10 @@
+// GENERATED DO NOT EDIT
+// This source data is located at '..\src\opcodes\vars.jsonc'
+// run `npm run filetypes` to rebuild
+
+export type vars = {
+	type?: number | null
+	unknown_04?: number | null
+	unknown_07?: true | null
+	unknown_6e?: number | null
+};
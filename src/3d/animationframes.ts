@@ -81,7 +81,13 @@ export function mountBakedSkeleton(rootnode: Object3D, model: ModelData) {
 	return { mixer };
 }
 
-export async function parseAnimationSequence4(loader: ThreejsSceneCache, sequenceframes: NonNullable<sequences["frames"]>): Promise<(model: ModelData) => AnimationClip> {
+export type FrameSequence = {
+	framebase: framemaps,
+	clips: Float32Array[],
+	keyframetimes: Float32Array
+}
+
+export async function loadFrameSequence(loader: ThreejsSceneCache, sequenceframes: NonNullable<sequences["frames"]>): Promise<FrameSequence> {
 
 	let secframe0 = sequenceframes[0];
 	if (!secframe0) {
@@ -120,108 +126,257 @@ export async function parseAnimationSequence4(loader: ThreejsSceneCache, sequenc
 	// let { bones } = buildFramebaseSkeleton(framebase);
 	let clips = getFrameClips(framebase, orderedframes);
 
+	return { framebase, clips, keyframetimes };
+}
+
+//bone matrices of every keyframe in the same way the client transforms vertices
+export function bakeFrameSequence(sequence: FrameSequence, model: ModelData) {
+	return bakeAnimation(sequence.framebase, sequence.clips, sequence.keyframetimes, getBoneCenters(model));
+}
+
+export async function parseAnimationSequence4(loader: ThreejsSceneCache, sequenceframes: NonNullable<sequences["frames"]>): Promise<(model: ModelData) => AnimationClip> {
+	let sequence = await loadFrameSequence(loader, sequenceframes);
+	return (model: ModelData) => frameSequenceToClip(sequence, model);
+}
+
+//names of the bones that are moved by the given framebase labels, used to mask a sequence
+//when it is interleaved with another sequence
+export function frameSequenceBoneNames(sequence: FrameSequence, labels: number[]) {
+	let names = new Set<string>();
+	for (let label of labels) {
+		let step = sequence.framebase.data[label];
+		if (!step) { continue; }
+		for (let boneid of step.data) {
+			names.add(`root_${boneid + 1}`);
+			names.add(`bone_${boneid + 1}`);
+		}
+	}
+	return names;
+}
+
+//every bone is split into a root bone with translate/rotate/scale and a leaf bone with a second rotation
+//together these can represent any affine transform exactly, including the shear that results from
+//scaling in the global frame after a rotation
+export function frameSequenceToClip(sequence: FrameSequence, model: ModelData) {
+	let keyframetimes = sequence.keyframetimes;
+	let transforms = bakeFrameSequence(sequence, model)
+		.map((arr, i) => ({ id: i, trans: arr }));
+
+	let nframes = keyframetimes.length;
+	let tracks: KeyframeTrack[] = [];
+
+	//reused holders
+	let matrix = new Matrix4();
+	let scale = new Vector3();
+	let translate = new Vector3();
+	let prerotate = new Quaternion();
+	let postrotate = new Quaternion();
+	let skippedbones = 0;
+	for (let trans of transforms) {
+		if (trans.id == 0) {
+			//don't emit keyframetrack for static root bone, since it is a noop and
+			//bone name doesn't match (doing this messes with export)
+			continue;
+		}
+		if (trans.id >= model.bonecount) {
+			skippedbones++;
+			continue;
+		}
+		let rootname = `root_${trans.id}`;
+		let leafname = `bone_${trans.id}`;
+		let scales = new Float32Array(nframes * 3);
+		let positions = new Float32Array(nframes * 3);
+		let prerotates = new Float32Array(nframes * 4);
+		let postrotates = new Float32Array(nframes * 4);
+		let state = new DoubleBoneState();
+		for (let i = 0; i < nframes; i++) {
+			matrix.fromArray(trans.trans, i * 16);
+			matrixToDoubleBone(matrix, translate, prerotate, scale, postrotate, state);
+			translate.toArray(positions, i * 3);
+			prerotate.toArray(prerotates, i * 4);
+			scale.toArray(scales, i * 3);
+			postrotate.toArray(postrotates, i * 4);
+		}
+		tracks.push(new VectorKeyframeTrack(`${rootname}.position`, keyframetimes as any, positions as any));
+		tracks.push(new QuaternionKeyframeTrack(`${rootname}.quaternion`, keyframetimes as any, prerotates as any));
+		tracks.push(new VectorKeyframeTrack(`${rootname}.scale`, keyframetimes as any, scales as any));
+		tracks.push(new QuaternionKeyframeTrack(`${leafname}.quaternion`, keyframetimes as any, postrotates as any));
+	}
+	if (skippedbones != 0) {
+		console.log("skipped " + skippedbones + " bone animations since the model didn't have them");
+	}
+	let clip = new AnimationClip("anim", undefined, tracks);
+	return clip;
+}
+
+const axisPermutations = [[0, 1, 2], [0, 2, 1], [1, 0, 2], [1, 2, 0], [2, 0, 1], [2, 1, 0]];
+//singular values below this are treated as a collapsed axis
+const singularEpsilon = 1e-6;
+
+//decomposition of the previous keyframe, the svd of a matrix isn't unique so every frame
+//is matched against the previous one to prevent axis swaps and flips between keyframes
+class DoubleBoneState {
+	u = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+	v = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+	sigma = [1, 1, 1];
+	rotate1 = new Quaternion();
+	rotate2 = new Quaternion();
+}
 
-	return (model: ModelData) => {
-		let centers = getBoneCenters(model);
-		let transforms = bakeAnimation(framebase, clips, keyframetimes, centers)
-			.map((arr, i) => ({ id: i, trans: arr }));
-
-		let nframes = keyframetimes.length;
-		let tracks: KeyframeTrack[] = [];
-
-		//reused holders
-		let matrix = new Matrix4();
-		let scale = new Vector3();
-		let translate = new Vector3();
-		let prerotate = new Quaternion();
-		let postrotate = new Quaternion();
-		let skippedbones = 0;
-		for (let trans of transforms) {
-			if (trans.id == 0) {
-				//don't emit keyframetrack for static root bone, since it is a noop and
-				//bone name doesn't match (doing this messes with export)
-				continue;
+//eigen decomposition of a symmetric row major 3x3 matrix using jacobi rotations
+//the matrix is diagonalized in place and the eigenvectors are written to the columns of v
+function symmetricEigen3(a: number[], v: number[]) {
+	v.splice(0, 9, 1, 0, 0, 0, 1, 0, 0, 0, 1);
+	for (let sweep = 0; sweep < 32; sweep++) {
+		let off = a[1] * a[1] + a[2] * a[2] + a[5] * a[5];
+		let diag = a[0] * a[0] + a[4] * a[4] + a[8] * a[8];
+		if (off <= diag * 1e-24) { break; }
+		for (let [p, q] of [[0, 1], [0, 2], [1, 2]]) {
+			let apq = a[p * 3 + q];
+			if (apq == 0) { continue; }
+			let theta = (a[q * 3 + q] - a[p * 3 + p]) / (2 * apq);
+			let t = (theta >= 0 ? 1 : -1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+			let c = 1 / Math.sqrt(t * t + 1);
+			let s = t * c;
+			for (let k = 0; k < 3; k++) {
+				let akp = a[k * 3 + p], akq = a[k * 3 + q];
+				a[k * 3 + p] = c * akp - s * akq;
+				a[k * 3 + q] = s * akp + c * akq;
 			}
-			if (trans.id >= model.bonecount) {
-				skippedbones++;
-				continue;
+			for (let k = 0; k < 3; k++) {
+				let apk = a[p * 3 + k], aqk = a[q * 3 + k];
+				a[p * 3 + k] = c * apk - s * aqk;
+				a[q * 3 + k] = s * apk + c * aqk;
 			}
-			let rootname = `root_${trans.id}`;
-			let leafname = `bone_${trans.id}`;
-			let scales = new Float32Array(nframes * 3);
-			let positions = new Float32Array(nframes * 3);
-			let prerotates = new Float32Array(nframes * 4);
-			let postrotates = new Float32Array(nframes * 4);
-			for (let i = 0; i < nframes; i++) {
-				matrix.fromArray(trans.trans, i * 16);
-				matrixToDoubleBone(matrix, translate, prerotate, scale, postrotate);
-				translate.toArray(positions, i * 3);
-				prerotate.toArray(prerotates, i * 4);
-				scale.toArray(scales, i * 3);
-				postrotate.toArray(postrotates, i * 4);
+			for (let k = 0; k < 3; k++) {
+				let vkp = v[k * 3 + p], vkq = v[k * 3 + q];
+				v[k * 3 + p] = c * vkp - s * vkq;
+				v[k * 3 + q] = s * vkp + c * vkq;
 			}
-			tracks.push(new VectorKeyframeTrack(`${rootname}.position`, keyframetimes as any, positions as any));
-			tracks.push(new QuaternionKeyframeTrack(`${rootname}.quaternion`, keyframetimes as any, prerotates as any));
-			tracks.push(new VectorKeyframeTrack(`${rootname}.scale`, keyframetimes as any, scales as any));
-			tracks.push(new QuaternionKeyframeTrack(`${leafname}.quaternion`, keyframetimes as any, postrotates as any));
-		}
-		if (skippedbones != 0) {
-			console.log("skipped " + skippedbones + " bone animations since the model didn't have them");
 		}
-		let clip = new AnimationClip("anim", undefined, tracks);
-		return clip;
 	}
 }
 
-function matrixToDoubleBone(matrix: Matrix4, translate: Vector3, rotate1: Quaternion, scale: Vector3, rotate2: Quaternion) {
-	matrix.decompose(translate, rotate1, scale);
-	rotate2.identity();
-
-
-	// this would have resulted in perfect reconstruction, however SVD is not stable when animated
-
-	// let mat2 = [
-	// 	matrix.elements.slice(0, 3),
-	// 	matrix.elements.slice(4, 7),
-	// 	matrix.elements.slice(8, 11),
-	// ]
-	// translate.set(matrix.elements[12], matrix.elements[13], matrix.elements[14]);
-	// let { q, u, v } = SVD(mat2);
-
-	// let pre = new Matrix4();
-	// let post = new Matrix4();
-	// pre.set(
-	// 	u[0][0], u[0][1], u[0][2], 0,
-	// 	u[1][0], u[1][1], u[1][2], 0,
-	// 	u[2][0], u[2][1], u[2][2], 0,
-	// 	0, 0, 0, 1
-	// );
-	// post.set(
-	// 	v[0][0], v[0][1], v[0][2], 0,
-	// 	v[1][0], v[1][1], v[1][2], 0,
-	// 	v[2][0], v[2][1], v[2][2], 0,
-	// 	0, 0, 0, 1
-	// ).transpose();
-	// let predet = pre.determinant();
-	// let postdet = post.determinant();
-	// if (Math.sign(predet) != Math.sign(postdet)) {
-	// 	q[0] = -q[0];//flip one of the scales if only one of our rotates has a flip
-	// }
-	// if (predet < 0) {
-	// 	pre.elements[0] *= -1;
-	// 	pre.elements[4] *= -1;
-	// 	pre.elements[8] *= -1;
-	// 	pre.elements[12] *= -1;
-	// }
-	// if (postdet < 0) {
-	// 	post.elements[0] *= -1;
-	// 	post.elements[1] *= -1;
-	// 	post.elements[2] *= -1;
-	// 	post.elements[3] *= -1;
-	// }
-	// rotate1.setFromRotationMatrix(pre);
-	// rotate2.setFromRotationMatrix(post);
-	// scale.set(q[0], q[1], q[2]);
+function columnDot(a: number[], i: number, b: number[], j: number) {
+	return a[i] * b[j] + a[3 + i] * b[3 + j] + a[6 + i] * b[6 + j];
+}
+
+function det3(m: number[]) {
+	return m[0] * (m[4] * m[8] - m[5] * m[7]) - m[1] * (m[3] * m[8] - m[5] * m[6]) + m[2] * (m[3] * m[7] - m[4] * m[6]);
+}
+
+function rowMajorToQuaternion(m: number[], target: Quaternion) {
+	let tmp = new Matrix4().set(
+		m[0], m[1], m[2], 0,
+		m[3], m[4], m[5], 0,
+		m[6], m[7], m[8], 0,
+		0, 0, 0, 1
+	);
+	return target.setFromRotationMatrix(tmp);
+}
+
+//splits an affine matrix into translate*rotate1*scale*rotate2 (svd of the linear part)
+function matrixToDoubleBone(matrix: Matrix4, translate: Vector3, rotate1: Quaternion, scale: Vector3, rotate2: Quaternion, state: DoubleBoneState) {
+	let e = matrix.elements;
+	translate.set(e[12], e[13], e[14]);
+	//row major linear part
+	let l = [e[0], e[4], e[8], e[1], e[5], e[9], e[2], e[6], e[10]];
+
+	//l^t*l = v*sigma^2*v^t
+	let ltl: number[] = [];
+	for (let i = 0; i < 3; i++) {
+		for (let j = 0; j < 3; j++) {
+			ltl.push(l[i] * l[j] + l[3 + i] * l[3 + j] + l[6 + i] * l[6 + j]);
+		}
+	}
+	let eigenv: number[] = [];
+	symmetricEigen3(ltl, eigenv);
+
+	//match the axes to the previous frame
+	let bestperm = axisPermutations[0];
+	let bestscore = -1;
+	for (let perm of axisPermutations) {
+		let score = 0;
+		for (let i = 0; i < 3; i++) { score += Math.abs(columnDot(state.v, i, eigenv, perm[i])); }
+		if (score > bestscore + 1e-9) {
+			bestscore = score;
+			bestperm = perm;
+		}
+	}
+	let v: number[] = new Array(9);
+	let sigma = [0, 0, 0];
+	for (let i = 0; i < 3; i++) {
+		let flip = (columnDot(state.v, i, eigenv, bestperm[i]) < 0 ? -1 : 1);
+		for (let k = 0; k < 3; k++) { v[k * 3 + i] = eigenv[k * 3 + bestperm[i]] * flip; }
+		sigma[i] = Math.sqrt(Math.max(0, ltl[bestperm[i] * 4]));
+	}
+	if (det3(v) < 0) {
+		//only happens with degenerate eigenvalues, flip the least important axis
+		let axis = sigma.indexOf(Math.min(...sigma));
+		for (let k = 0; k < 3; k++) { v[k * 3 + axis] *= -1; }
+	}
+
+	//u = l*v/sigma, axes that collapsed to zero keep their previous direction
+	let maxsigma = Math.max(...sigma, 1e-30);
+	let order = [0, 1, 2].sort((a, b) => sigma[b] - sigma[a]);
+	let u: number[] = new Array(9).fill(0);
+	let done: number[] = [];
+	for (let i of order) {
+		let col = [0, 0, 0];
+		if (sigma[i] > maxsigma * singularEpsilon) {
+			for (let k = 0; k < 3; k++) {
+				col[k] = (l[k * 3 + 0] * v[0 + i] + l[k * 3 + 1] * v[3 + i] + l[k * 3 + 2] * v[6 + i]) / sigma[i];
+			}
+		} else {
+			sigma[i] = 0;
+			col = [state.u[i], state.u[3 + i], state.u[6 + i]];
+		}
+		//gram-schmidt against the axes that are already known
+		for (let j of done) {
+			let d = col[0] * u[j] + col[1] * u[3 + j] + col[2] * u[6 + j];
+			for (let k = 0; k < 3; k++) { col[k] -= d * u[k * 3 + j]; }
+		}
+		let len = Math.hypot(col[0], col[1], col[2]);
+		if (len < 1e-9) {
+			//previous direction is now parallel to a known axis, any perpendicular direction works
+			let j = done[0];
+			let ref = (Math.abs(u[j]) < 0.9 ? [1, 0, 0] : [0, 1, 0]);
+			col = [
+				u[3 + j] * ref[2] - u[6 + j] * ref[1],
+				u[6 + j] * ref[0] - u[j] * ref[2],
+				u[j] * ref[1] - u[3 + j] * ref[0]
+			];
+			for (let j2 of done.slice(1)) {
+				let d = col[0] * u[j2] + col[1] * u[3 + j2] + col[2] * u[6 + j2];
+				for (let k = 0; k < 3; k++) { col[k] -= d * u[k * 3 + j2]; }
+			}
+			len = Math.hypot(col[0], col[1], col[2]);
+		}
+		for (let k = 0; k < 3; k++) { u[k * 3 + i] = col[k] / len; }
+		done.push(i);
+	}
+	if (det3(u) < 0) {
+		//mirrored transform, put the mirror in one of the scale axes
+		//prefer the axis that was mirrored in the previous frame
+		let axis = state.sigma.findIndex(q => q < 0);
+		if (axis == -1) { axis = sigma.indexOf(Math.min(...sigma)); }
+		for (let k = 0; k < 3; k++) { u[k * 3 + axis] *= -1; }
+		sigma[axis] *= -1;
+	}
+
+	rowMajorToQuaternion(u, rotate1);
+	//rotate2 = v^t
+	rowMajorToQuaternion([v[0], v[3], v[6], v[1], v[4], v[7], v[2], v[5], v[8]], rotate2);
+	//keep quaternions in the same hemisphere so interpolation takes the short path
+	if (rotate1.dot(state.rotate1) < 0) { rotate1.set(-rotate1.x, -rotate1.y, -rotate1.z, -rotate1.w); }
+	if (rotate2.dot(state.rotate2) < 0) { rotate2.set(-rotate2.x, -rotate2.y, -rotate2.z, -rotate2.w); }
+	scale.set(sigma[0], sigma[1], sigma[2]);
+
+	state.u = u;
+	state.v = v;
+	state.sigma = sigma;
+	state.rotate1.copy(rotate1);
+	state.rotate2.copy(rotate2);
 }
 
 function bakeAnimation(base: framemaps, clips: ReturnType<typeof getFrameClips>, frametimes: Float32Array, bonecenters: BoneCenter[]) {
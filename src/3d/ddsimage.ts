@@ -259,7 +259,8 @@ function dxtdata(targetdata: Uint8Array, targetstride: number, source: Uint8Arra
 					if (alphabitoffset >= 16) {
 						alphabitoffset -= 16;
 						alphawordoffset++;
-						alphaid |= datawords[alphawordoffset] & (1 << (alphabitoffset - 1));
+						//take the remaining high bits of the index from the next word
+						alphaid = (alphaid | (datawords[alphawordoffset] << (3 - alphabitoffset))) & 7;
 					}
 
 					targetdata[pxoffset + 3] = a[alphaid];
@@ -502,3 +503,318 @@ function etc2data(targetdata: Uint8Array, targetstride: number, source: Uint8Arr
 		}
 	}
 }
+
+type RawImage = { data: Uint8Array | Uint8ClampedArray, width: number, height: number };
+
+export function writeDds(img: RawImage, isDxt5: boolean) {
+	let blockswide = Math.ceil(img.width / 4);
+	let blockshigh = Math.ceil(img.height / 4);
+	let header = Buffer.alloc(128);
+	let offset = 0;
+	offset = header.writeUInt32LE(0x20534444, offset);//"DDS "
+	offset = header.writeUInt32LE(124, offset);//header size
+	offset = header.writeUInt32LE(0x1 | 0x2 | 0x4 | 0x1000 | 0x20000 | 0x80000, offset);//caps|height|width|pixelformat|mipmapcount|linearsize
+	offset = header.writeUInt32LE(img.height, offset);
+	offset = header.writeUInt32LE(img.width, offset);
+	offset = header.writeUInt32LE(blockswide * blockshigh * (isDxt5 ? 16 : 8), offset);
+	offset = header.writeUInt32LE(0, offset);//depth
+	offset = header.writeUInt32LE(1, offset);//mipmapcount, every mip level is stored as a separate file
+	offset += 11 * 4;//reserved
+	offset = header.writeUInt32LE(32, offset);//pixelformat size
+	offset = header.writeUInt32LE(0x4, offset);//fourcc flag
+	offset = header.writeUInt32LE(isDxt5 ? 0x35545844 : 0x31545844, offset);//DXT5 or DXT1
+	offset += 5 * 4;//rgb bitcount and masks
+	offset = header.writeUInt32LE(0x1000, offset);//caps texture
+	return Buffer.concat([header, dxtencode(img, isDxt5)]);
+}
+
+export function writeKtx(img: RawImage, hasalpha: boolean) {
+	let header = Buffer.alloc(12 + 13 * 4 + 4);
+	let offset = 0;
+	offset = header.writeUInt32BE(0xab4b5458, offset);
+	offset = header.writeUInt32BE(0x203131bb, offset);
+	offset = header.writeUInt32BE(0x0d0a1a0a, offset);
+	let putuint = (v: number) => { offset = header.writeUInt32LE(v, offset); }
+	putuint(0x04030201);//endianness
+	putuint(0);//glType
+	putuint(1);//glTypeSize
+	putuint(0);//glFormat
+	putuint(hasalpha ? 0x9278 : 0x9274);//GL_COMPRESSED_RGBA8_ETC2_EAC or GL_COMPRESSED_RGB8_ETC2
+	putuint(hasalpha ? 0x1908 : 0x1907);//GL_RGBA or GL_RGB
+	putuint(img.width);
+	putuint(img.height);
+	putuint(0);//depth
+	putuint(0);//array elements
+	putuint(1);//faces
+	putuint(1);//mipmap levels, every mip level is stored as a separate file
+	putuint(0);//key value data
+	let data = etc2encode(img, hasalpha);
+	putuint(data.byteLength);
+	return Buffer.concat([header, data]);
+}
+
+//reads pixels outside the image as the nearest edge pixel so partial blocks can be encoded
+function readBlock(img: RawImage, blockx: number, blocky: number, target: Uint8Array) {
+	for (let p = 0; p < 16; p++) {
+		let x = Math.min(blockx * 4 + p % 4, img.width - 1);
+		let y = Math.min(blocky * 4 + (p / 4 | 0), img.height - 1);
+		let inoffset = (y * img.width + x) * 4;
+		target[p * 4 + 0] = img.data[inoffset + 0];
+		target[p * 4 + 1] = img.data[inoffset + 1];
+		target[p * 4 + 2] = img.data[inoffset + 2];
+		target[p * 4 + 3] = img.data[inoffset + 3];
+	}
+}
+
+function pack565(r: number, g: number, b: number) {
+	return ((Math.round(r * 31 / 255) << 11) | (Math.round(g * 63 / 255) << 5) | Math.round(b * 31 / 255));
+}
+
+/**
+ * inverse of dxtdata, uses the bounding box of the block colors as endpoints
+ * output pixels are in the same order as read by dxtdata (row major within the block)
+ */
+function dxtencode(img: RawImage, isDxt5: boolean) {
+	const bytesperblock = isDxt5 ? 16 : 8;
+	const coloroffset = isDxt5 ? 8 : 0;
+	const blockswide = Math.ceil(img.width / 4);
+	const blockshigh = Math.ceil(img.height / 4);
+	const out = new Uint8Array(blockswide * blockshigh * bytesperblock);
+	//prealloc these so we don't do it in a hot loop
+	const block = new Uint8Array(16 * 4);
+	const r = new Uint8Array(4);
+	const g = new Uint8Array(4);
+	const b = new Uint8Array(4);
+	const a = new Uint8Array(8);
+	for (let blocky = 0; blocky < blockshigh; blocky++) {
+		for (let blockx = 0; blockx < blockswide; blockx++) {
+			readBlock(img, blockx, blocky, block);
+			let dataptr = (blocky * blockswide + blockx) * bytesperblock;
+
+			let minr = 255, ming = 255, minb = 255, mina = 255;
+			let maxr = 0, maxg = 0, maxb = 0, maxa = 0;
+			for (let p = 0; p < 16; p++) {
+				minr = Math.min(minr, block[p * 4 + 0]); maxr = Math.max(maxr, block[p * 4 + 0]);
+				ming = Math.min(ming, block[p * 4 + 1]); maxg = Math.max(maxg, block[p * 4 + 1]);
+				minb = Math.min(minb, block[p * 4 + 2]); maxb = Math.max(maxb, block[p * 4 + 2]);
+				mina = Math.min(mina, block[p * 4 + 3]); maxa = Math.max(maxa, block[p * 4 + 3]);
+			}
+			//inset the bounding box a bit, this gets the interpolated colors closer to the actual colors
+			let insetr = (maxr - minr) / 16, insetg = (maxg - ming) / 16, insetb = (maxb - minb) / 16;
+			let color0 = pack565(maxr - insetr, maxg - insetg, maxb - insetb);
+			let color1 = pack565(minr + insetr, ming + insetg, minb + insetb);
+
+			r[0] = unpackpixel(color0, 11, 5); g[0] = unpackpixel(color0, 5, 6); b[0] = unpackpixel(color0, 0, 5);
+			r[1] = unpackpixel(color1, 11, 5); g[1] = unpackpixel(color1, 5, 6); b[1] = unpackpixel(color1, 0, 5);
+			r[2] = (2 * r[0] + r[1] + 1) / 3; g[2] = (2 * g[0] + g[1] + 1) / 3; b[2] = (2 * b[0] + b[1] + 1) / 3;
+			r[3] = (r[0] + 2 * r[1] + 1) / 3; g[3] = (g[0] + 2 * g[1] + 1) / 3; b[3] = (b[0] + 2 * b[1] + 1) / 3;
+
+			//color0 has to be larger to get 4 color mode, equal colors means a flat block
+			let indices = 0;
+			if (color0 != color1) {
+				for (let p = 0; p < 16; p++) {
+					let best = 0;
+					let besterr = Infinity;
+					for (let id = 0; id < 4; id++) {
+						let dr = block[p * 4 + 0] - r[id], dg = block[p * 4 + 1] - g[id], db = block[p * 4 + 2] - b[id];
+						let err = dr * dr + dg * dg + db * db;
+						if (err < besterr) { besterr = err; best = id; }
+					}
+					indices |= best << (p * 2);
+				}
+			}
+			out[dataptr + coloroffset + 0] = color0 & 0xff;
+			out[dataptr + coloroffset + 1] = color0 >> 8;
+			out[dataptr + coloroffset + 2] = color1 & 0xff;
+			out[dataptr + coloroffset + 3] = color1 >> 8;
+			out[dataptr + coloroffset + 4] = indices & 0xff;
+			out[dataptr + coloroffset + 5] = (indices >> 8) & 0xff;
+			out[dataptr + coloroffset + 6] = (indices >> 16) & 0xff;
+			out[dataptr + coloroffset + 7] = (indices >>> 24) & 0xff;
+
+			if (isDxt5) {
+				a[0] = maxa;
+				a[1] = mina;
+				for (let i = 0; i < 6; i++) {
+					a[2 + i] = ((6 - i) * a[0] + (1 + i) * a[1] + 3) / 7;
+				}
+				out[dataptr + 0] = a[0];
+				out[dataptr + 1] = a[1];
+				//48 bits of 3 bit indices, little endian
+				let bitoffset = 0;
+				for (let p = 0; p < 16; p++) {
+					let best = 0;
+					if (maxa != mina) {
+						let besterr = Infinity;
+						for (let id = 0; id < 8; id++) {
+							let err = Math.abs(block[p * 4 + 3] - a[id]);
+							if (err < besterr) { besterr = err; best = id; }
+						}
+					}
+					for (let bit = 0; bit < 3; bit++, bitoffset++) {
+						if (best & (1 << bit)) { out[dataptr + 2 + (bitoffset >> 3)] |= 1 << (bitoffset & 7); }
+					}
+				}
+			}
+		}
+	}
+	return out;
+}
+
+//ETC color subblock search state
+type EtcSubblock = { table: number, indices: number[], error: number };
+
+function etcFitSubblock(block: Uint8Array, pixels: number[], baser: number, baseg: number, baseb: number): EtcSubblock {
+	let best: EtcSubblock = { table: 0, indices: [], error: Infinity };
+	for (let table = 0; table < 8; table++) {
+		let error = 0;
+		let indices: number[] = [];
+		for (let p of pixels) {
+			let pixbest = 0;
+			let pixerr = Infinity;
+			for (let index = 0; index < 4; index++) {
+				let mod = etc2offsets[(table << 2) | index];
+				let dr = block[p * 4 + 0] - clamp(baser + mod);
+				let dg = block[p * 4 + 1] - clamp(baseg + mod);
+				let db = block[p * 4 + 2] - clamp(baseb + mod);
+				let err = dr * dr + dg * dg + db * db;
+				if (err < pixerr) { pixerr = err; pixbest = index; }
+			}
+			indices.push(pixbest);
+			error += pixerr;
+		}
+		if (error < best.error) { best = { table, indices, error }; }
+	}
+	return best;
+}
+
+/**
+ * inverse of etc2data, only uses the individual and differential modes (which are etc1 compatible)
+ * output pixels are in the same order as read by etc2data (column major within the block)
+ */
+function etc2encode(img: RawImage, hasalpha: boolean) {
+	const bytesperblock = hasalpha ? 16 : 8;
+	const coloroffset = hasalpha ? 8 : 0;
+	const blockswide = Math.ceil(img.width / 4);
+	const blockshigh = Math.ceil(img.height / 4);
+	const out = Buffer.alloc(blockswide * blockshigh * bytesperblock);
+	//etc blocks are column major, readBlock is row major
+	const rowmajor = new Uint8Array(16 * 4);
+	const block = new Uint8Array(16 * 4);
+	for (let blocky = 0; blocky < blockshigh; blocky++) {
+		for (let blockx = 0; blockx < blockswide; blockx++) {
+			readBlock(img, blockx, blocky, rowmajor);
+			for (let p = 0; p < 16; p++) {
+				let src = ((p % 4) * 4 + (p / 4 | 0)) * 4;
+				block.set(rowmajor.subarray(src, src + 4), p * 4);
+			}
+			let dataptr = (blocky * blockswide + blockx) * bytesperblock;
+
+			let bestupper = 0;
+			let bestlower = 0;
+			let besterror = Infinity;
+			for (let flip = 0; flip < 2; flip++) {
+				let pixels1: number[] = [];
+				let pixels2: number[] = [];
+				for (let p = 0; p < 16; p++) {
+					let isfirst = (flip == 1 ? (p % 4) < 2 : p < 8);
+					(isfirst ? pixels1 : pixels2).push(p);
+				}
+				let average = (pixels: number[], channel: number) => pixels.reduce((a, p) => a + block[p * 4 + channel], 0) / pixels.length;
+				let avg1 = [average(pixels1, 0), average(pixels1, 1), average(pixels1, 2)];
+				let avg2 = [average(pixels2, 0), average(pixels2, 1), average(pixels2, 2)];
+
+				let q1 = avg1.map(q => Math.round(q * 31 / 255));
+				let q2 = avg2.map(q => Math.round(q * 31 / 255));
+				let diffs = q2.map((q, i) => q - q1[i]);
+				let differential = diffs.every(q => q >= -4 && q <= 3);
+				let upper: number;
+				let base1: number[], base2: number[];
+				if (differential) {
+					base1 = q1.map(extend5to8);
+					base2 = q2.map(extend5to8);
+					upper = (q1[0] << 27) | ((diffs[0] & 7) << 24) | (q1[1] << 19) | ((diffs[1] & 7) << 16) | (q1[2] << 11) | ((diffs[2] & 7) << 8) | (1 << 1) | flip;
+				} else {
+					let i1 = avg1.map(q => Math.round(q * 15 / 255));
+					let i2 = avg2.map(q => Math.round(q * 15 / 255));
+					base1 = i1.map(extend4to8);
+					base2 = i2.map(extend4to8);
+					upper = (i1[0] << 28) | (i2[0] << 24) | (i1[1] << 20) | (i2[1] << 16) | (i1[2] << 12) | (i2[2] << 8) | flip;
+				}
+				let fit1 = etcFitSubblock(block, pixels1, base1[0], base1[1], base1[2]);
+				let fit2 = etcFitSubblock(block, pixels2, base2[0], base2[1], base2[2]);
+				if (fit1.error + fit2.error >= besterror) { continue; }
+				besterror = fit1.error + fit2.error;
+				upper |= (fit1.table << 5) | (fit2.table << 2);
+				let lower = 0;
+				let setindex = (p: number, index: number) => { lower |= ((index & 1) << p) | ((index >> 1) << (p + 16)); }
+				pixels1.forEach((p, i) => setindex(p, fit1.indices[i]));
+				pixels2.forEach((p, i) => setindex(p, fit2.indices[i]));
+				bestupper = upper;
+				bestlower = lower;
+			}
+			out.writeUInt32BE(bestupper >>> 0, dataptr + coloroffset);
+			out.writeUInt32BE(bestlower >>> 0, dataptr + coloroffset + 4);
+
+			if (hasalpha) {
+				let alpha = etc2encodeAlpha(block);
+				out.writeUInt32BE(alpha.upper >>> 0, dataptr);
+				out.writeUInt32BE(alpha.lower >>> 0, dataptr + 4);
+			}
+		}
+	}
+	return out;
+}
+
+//eac alpha block, pixels in column major order
+function etc2encodeAlpha(block: Uint8Array) {
+	let mina = 255, maxa = 0;
+	for (let p = 0; p < 16; p++) {
+		mina = Math.min(mina, block[p * 4 + 3]);
+		maxa = Math.max(maxa, block[p * 4 + 3]);
+	}
+	let bestbase = mina, bestmult = 1, besttable = 13;
+	let besterror = Infinity;
+	let bestindices = new Uint8Array(16).fill(4);//table 13 index 4 is a 0 offset
+	if (mina != maxa) {
+		let indices = new Uint8Array(16);
+		for (let table = 0; table < 16; table++) {
+			let tablemin = etc2alphas[(table << 3) | 3];
+			let tablemax = etc2alphas[(table << 3) | 7];
+			let idealmult = Math.round((maxa - mina) / (tablemax - tablemin));
+			for (let mult = Math.max(1, idealmult - 1); mult <= Math.min(15, idealmult + 1); mult++) {
+				let base = Math.min(255, Math.max(0, Math.round(mina - tablemin * mult)));
+				let error = 0;
+				for (let p = 0; p < 16 && error < besterror; p++) {
+					let pixbest = 0;
+					let pixerr = Infinity;
+					for (let index = 0; index < 8; index++) {
+						let err = Math.abs(block[p * 4 + 3] - ect2alphalookup(base, table, mult, index));
+						if (err < pixerr) { pixerr = err; pixbest = index; }
+					}
+					indices[p] = pixbest;
+					error += pixerr * pixerr;
+				}
+				if (error < besterror) {
+					besterror = error;
+					bestbase = base;
+					bestmult = mult;
+					besttable = table;
+					bestindices.set(indices);
+				}
+			}
+		}
+	}
+	//the 48 index bits start right after the 16 bit header, the first pixel uses the highest bits
+	let upper = (bestbase << 24) | (bestmult << 20) | (besttable << 16);
+	let lower = 0;
+	for (let p = 0; p < 16; p++) {
+		for (let bit = 0; bit < 3; bit++) {
+			let pos = 45 - p * 3 + bit;
+			if (!(bestindices[p] & (1 << bit))) { continue; }
+			if (pos >= 32) { upper |= 1 << (pos - 32); }
+			else { lower |= 1 << pos; }
+		}
+	}
+	return { upper, lower };
+}
@@ -21,6 +21,7 @@ import { CanvasImage } from "../imgutils";
 import { minimapFloorMaterial, minimapWaterMaterial } from "../rs3shaders";
 import { mapsquare_tiles_nxt } from "../../generated/mapsquare_tiles_nxt";
 import { crc32addInt } from "../libs/crc32util";
+import { createParticleEmitters, ModelParticleEffector, ModelParticleEmitter } from "./particles";
 
 
 export const tiledimensions = 512;
@@ -1199,7 +1200,14 @@ export async function renderMapSquare(cache: ThreejsSceneCache, parsedsquare: Re
 
 		if (allmeshes.length != 0) {
 			let materials = await Promise.all(allmeshes.map(q => q.material ?? cache.getMaterial(q.materialId, q.hasVertexAlpha, q.minimapVariant)));
-			chunkroot.add(...allmeshes.map((q, i) => meshgroupsToThree(grid, q, rootx, rootz, materials[i], locRenders)));
+			let merged = allmeshes.map((q, i) => meshgroupsToThree(grid, q, rootx, rootz, materials[i], locRenders));
+			chunkroot.add(...merged);
+			if (!opts.map2d && cache.particles) {
+				for (let [i, group] of allmeshes.entries()) {
+					let particles = await mapsquareParticles(cache, group, merged[i]);
+					if (particles.length != 0) { chunkroot.add(...particles); }
+				}
+			}
 		}
 
 		let floors = (await Promise.all(floordatas.map(f => floorToThree(cache, f)))).filter(q => q) as any;
@@ -2128,6 +2136,27 @@ class RSBatchMesh extends THREE.Mesh {
 	}
 }
 
+//particle emitters of locs, these are positioned on the merged mesh so they end up on the transformed model
+async function mapsquareParticles(cache: ThreejsSceneCache, meshgroup: PlacedModel, mergedmesh: RSBatchMesh) {
+	let emitters: { mesh: THREE.Mesh, ref: ModelParticleEmitter }[] = [];
+	let effectors: { mesh: THREE.Mesh, ref: ModelParticleEffector }[] = [];
+	for (let [i, m] of meshgroup.models.entries()) {
+		let offset = mergedmesh.renderSections[i].startvertex - m.model.vertexstart;
+		for (let ref of m.model.particleEmitters ?? []) {
+			emitters.push({ mesh: mergedmesh, ref: { emitterid: ref.emitterid, verts: [ref.verts[0] + offset, ref.verts[1] + offset, ref.verts[2] + offset] } });
+		}
+		for (let ref of m.model.particleEffectors ?? []) {
+			effectors.push({ mesh: mergedmesh, ref: { effectorid: ref.effectorid, vertex: ref.vertex + offset } });
+		}
+	}
+	if (emitters.length == 0) { return []; }
+	let nodes = await createParticleEmitters(cache, emitters, effectors);
+	for (let node of nodes) {
+		node.userData.modelgroup = meshgroup.groupid;
+	}
+	return nodes;
+}
+
 export function meshgroupsToThree(grid: TileGrid, meshgroup: PlacedModel, rootx: number, rootz: number, material: ParsedMaterial, locrenders: Map<WorldLocation, ThreeJsRenderSection[]>) {
 	let totalverts = meshgroup.models.reduce((a, v) => a + v.model.vertexend - v.model.vertexstart, 0);
 	let totalindices = meshgroup.models.reduce((a, v) => a + v.model.indices.count, 0);
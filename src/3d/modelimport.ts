@@ -0,0 +1,277 @@
+import * as THREE from "three";
+
+//triangle mesh with one material, read from an external model file
+export type ImportedMesh = {
+	//rs material id, -1 for untextured
+	materialId: number,
+	positions: Float32Array,
+	normals: Float32Array | null,
+	uvs: Float32Array | null,
+	//rgba in 0-1 range
+	colors: Float32Array | null,
+	//4 joints and weights per vertex
+	joints: Uint16Array | null,
+	weights: Float32Array | null,
+	indices: Uint32Array
+}
+
+const glbMagic = 0x46546c67;
+const glbChunkJson = 0x4e4f534a;
+const glbChunkBin = 0x004e4942;
+
+const accessorComponents = { SCALAR: 1, VEC2: 2, VEC3: 3, VEC4: 4, MAT2: 4, MAT3: 9, MAT4: 16 };
+const accessorTypes = {
+	0x1400: { constr: Int8Array, max: 127 },
+	0x1401: { constr: Uint8Array, max: 255 },
+	0x1402: { constr: Int16Array, max: 32767 },
+	0x1403: { constr: Uint16Array, max: 65535 },
+	0x1405: { constr: Uint32Array, max: 0xffffffff },
+	0x1406: { constr: Float32Array, max: 1 }
+};
+
+//materials named "material:<id>" or plain numbers are mapped to that id, used when there are no extras
+export function materialIdFromName(name: string | undefined) {
+	let match = name?.match(/^(?:material:)?(-?\d+)$/);
+	return (match ? +match[1] : -1);
+}
+
+//detects the file type by its content since the write path doesn't know the original extension
+export function importModelFile(file: Buffer) {
+	if (file.byteLength >= 4 && file.readUInt32LE(0) == glbMagic) {
+		return parseGltfMeshes(file);
+	}
+	let text = file.toString("utf8");
+	if (text.trimStart().startsWith("{")) {
+		return parseGltfMeshes(file);
+	}
+	return parseObjMeshes(text);
+}
+
+function readGltfContainer(file: Buffer) {
+	let json: any;
+	let bin: Buffer | null = null;
+	if (file.readUInt32LE(0) == glbMagic) {
+		let length = file.readUInt32LE(8);
+		for (let offset = 12; offset < length;) {
+			let chunklength = file.readUInt32LE(offset);
+			let chunktype = file.readUInt32LE(offset + 4);
+			let chunk = file.subarray(offset + 8, offset + 8 + chunklength);
+			if (chunktype == glbChunkJson) { json = JSON.parse(chunk.toString("utf8")); }
+			else if (chunktype == glbChunkBin) { bin = chunk; }
+			offset += 8 + chunklength;
+		}
+		if (!json) { throw new Error("glb file has no json chunk"); }
+	} else {
+		json = JSON.parse(file.toString("utf8"));
+	}
+	let buffers = (json.buffers ?? []).map((buf: any, i: number) => {
+		if (buf.uri == undefined) {
+			if (i != 0 || !bin) { throw new Error("gltf buffer without data"); }
+			return bin;
+		}
+		let datauri = (buf.uri as string).match(/^data:.*?;base64,(.*)$/);
+		if (!datauri) { throw new Error("gltf files with external buffers aren't supported, use a .glb file instead"); }
+		return Buffer.from(datauri[1], "base64");
+	}) as Buffer[];
+	return { json, buffers };
+}
+
+function readAccessor(json: any, buffers: Buffer[], index: number) {
+	let accessor = json.accessors[index];
+	let type = accessorTypes[accessor.componentType as keyof typeof accessorTypes];
+	if (!type) { throw new Error(`unsupported gltf component type ${accessor.componentType}`); }
+	if (accessor.sparse) { throw new Error("sparse gltf accessors aren't supported"); }
+	let components = accessorComponents[accessor.type as keyof typeof accessorComponents];
+	let res = new Float32Array(accessor.count * components);
+	if (accessor.bufferView == undefined) { return res; }
+	let view = json.bufferViews[accessor.bufferView];
+	let buffer = buffers[view.buffer];
+	let elsize = type.constr.BYTES_PER_ELEMENT;
+	let stride = view.byteStride ?? components * elsize;
+	let start = buffer.byteOffset + (view.byteOffset ?? 0) + (accessor.byteOffset ?? 0);
+	let data = new DataView(buffer.buffer);
+	let scale = (accessor.normalized ? 1 / type.max : 1);
+	let getter = {
+		1: (o: number) => (type.constr == Int8Array ? data.getInt8(o) : data.getUint8(o)),
+		2: (o: number) => (type.constr == Int16Array ? data.getInt16(o, true) : data.getUint16(o, true)),
+		4: (o: number) => (type.constr == Float32Array ? data.getFloat32(o, true) : data.getUint32(o, true))
+	}[elsize]!;
+	for (let i = 0; i < accessor.count; i++) {
+		for (let j = 0; j < components; j++) {
+			res[i * components + j] = getter(start + i * stride + j * elsize) * scale;
+		}
+	}
+	return res;
+}
+
+function expandComponents(src: Float32Array, count: number, from: number, to: number, fill: number) {
+	if (from == to) { return src; }
+	let res = new Float32Array(count * to).fill(fill);
+	for (let i = 0; i < count; i++) {
+		for (let j = 0; j < Math.min(from, to); j++) {
+			res[i * to + j] = src[i * from + j];
+		}
+	}
+	return res;
+}
+
+export function parseGltfMeshes(file: Buffer) {
+	let { json, buffers } = readGltfContainer(file);
+	let meshes: ImportedMesh[] = [];
+	let normalmatrix = new THREE.Matrix3();
+	let vec = new THREE.Vector3();
+
+	let addMesh = (meshindex: number, matrix: THREE.Matrix4) => {
+		normalmatrix.getNormalMatrix(matrix);
+		for (let prim of json.meshes[meshindex].primitives) {
+			if ((prim.mode ?? 4) != 4) { throw new Error("only triangle meshes can be imported"); }
+			let attrs = prim.attributes;
+			if (attrs.POSITION == undefined) { continue; }
+			let positions = readAccessor(json, buffers, attrs.POSITION);
+			let count = positions.length / 3;
+			for (let i = 0; i < count; i++) {
+				vec.fromArray(positions, i * 3).applyMatrix4(matrix).toArray(positions, i * 3);
+			}
+			let normals: Float32Array | null = null;
+			if (attrs.NORMAL != undefined) {
+				normals = readAccessor(json, buffers, attrs.NORMAL);
+				for (let i = 0; i < count; i++) {
+					vec.fromArray(normals, i * 3).applyMatrix3(normalmatrix).normalize().toArray(normals, i * 3);
+				}
+			}
+			let colors: Float32Array | null = null;
+			if (attrs.COLOR_0 != undefined) {
+				let components = accessorComponents[json.accessors[attrs.COLOR_0].type as keyof typeof accessorComponents];
+				colors = expandComponents(readAccessor(json, buffers, attrs.COLOR_0), count, components, 4, 1);
+			}
+			let indices: Uint32Array;
+			if (prim.indices != undefined) {
+				indices = Uint32Array.from(readAccessor(json, buffers, prim.indices));
+			} else {
+				indices = new Uint32Array(count).map((q, i) => i);
+			}
+			let material = (prim.material != undefined ? json.materials?.[prim.material] : undefined);
+			meshes.push({
+				materialId: (typeof material?.extras?.materialId == "number" ? material.extras.materialId : materialIdFromName(material?.name)),
+				positions,
+				normals,
+				uvs: (attrs.TEXCOORD_0 != undefined ? readAccessor(json, buffers, attrs.TEXCOORD_0) : null),
+				colors,
+				joints: (attrs.JOINTS_0 != undefined ? Uint16Array.from(readAccessor(json, buffers, attrs.JOINTS_0)) : null),
+				weights: (attrs.WEIGHTS_0 != undefined ? readAccessor(json, buffers, attrs.WEIGHTS_0) : null),
+				indices
+			});
+		}
+	}
+
+	let visitNode = (nodeindex: number, parentmatrix: THREE.Matrix4) => {
+		let node = json.nodes[nodeindex];
+		let local = new THREE.Matrix4();
+		if (node.matrix) {
+			local.fromArray(node.matrix);
+		} else {
+			local.compose(
+				new THREE.Vector3().fromArray(node.translation ?? [0, 0, 0]),
+				new THREE.Quaternion().fromArray(node.rotation ?? [0, 0, 0, 1]),
+				new THREE.Vector3().fromArray(node.scale ?? [1, 1, 1])
+			);
+		}
+		let matrix = parentmatrix.clone().multiply(local);
+		if (node.mesh != undefined) { addMesh(node.mesh, matrix); }
+		for (let child of node.children ?? []) { visitNode(child, matrix); }
+	}
+
+	let scene = json.scenes?.[json.scene ?? 0];
+	if (scene) {
+		for (let node of scene.nodes ?? []) { visitNode(node, new THREE.Matrix4()); }
+	} else {
+		//files without a scene only list meshes
+		for (let i = 0; i < (json.meshes ?? []).length; i++) { addMesh(i, new THREE.Matrix4()); }
+	}
+	return meshes;
+}
+
+export function parseObjMeshes(text: string) {
+	let positions: number[][] = [];
+	let colors: number[][] = [];
+	let uvs: number[][] = [];
+	let normals: number[][] = [];
+	let hascolors = false;
+	let groups = new Map<number, { verts: Map<string, number>, indices: number[], keys: string[] }>();
+	let group = (material: number) => {
+		let res = groups.get(material);
+		if (!res) {
+			res = { verts: new Map(), indices: [], keys: [] };
+			groups.set(material, res);
+		}
+		return res;
+	}
+	let current = group(-1);
+	//negative indices are relative to the end of the list
+	let resolve = (str: string, list: any[]) => {
+		if (!str) { return -1; }
+		let index = parseInt(str);
+		return (index < 0 ? list.length + index : index - 1);
+	}
+
+	for (let line of text.split(/\r?\n/)) {
+		let parts = line.trim().split(/\s+/);
+		let args = parts.slice(1);
+		if (parts[0] == "v") {
+			positions.push(args.slice(0, 3).map(Number));
+			//common extension that adds vertex colors after the position
+			if (args.length >= 6) {
+				colors[positions.length - 1] = [...args.slice(3, 6).map(Number), args.length >= 7 ? +args[6] : 1];
+				hascolors = true;
+			}
+		} else if (parts[0] == "vt") {
+			//obj has its uv origin in the bottom left
+			uvs.push([+args[0], 1 - +(args[1] ?? 0)]);
+		} else if (parts[0] == "vn") {
+			normals.push(args.slice(0, 3).map(Number));
+		} else if (parts[0] == "usemtl") {
+			current = group(materialIdFromName(args.join(" ")));
+		} else if (parts[0] == "f") {
+			let faceverts = args.map(vertstr => {
+				let [v, vt, vn] = vertstr.split("/");
+				let key = `${resolve(v, positions)}/${resolve(vt, uvs)}/${resolve(vn, normals)}`;
+				let index = current.verts.get(key);
+				if (index == undefined) {
+					index = current.keys.length;
+					current.verts.set(key, index);
+					current.keys.push(key);
+				}
+				return index;
+			});
+			//triangle fan for polygons
+			for (let i = 2; i < faceverts.length; i++) {
+				current.indices.push(faceverts[0], faceverts[i - 1], faceverts[i]);
+			}
+		}
+	}
+
+	let meshes: ImportedMesh[] = [];
+	for (let [materialId, grp] of groups) {
+		if (grp.indices.length == 0) { continue; }
+		let count = grp.keys.length;
+		let mesh: ImportedMesh = {
+			materialId,
+			positions: new Float32Array(count * 3),
+			normals: (normals.length != 0 ? new Float32Array(count * 3) : null),
+			uvs: (uvs.length != 0 ? new Float32Array(count * 2) : null),
+			colors: (hascolors ? new Float32Array(count * 4).fill(1) : null),
+			joints: null,
+			weights: null,
+			indices: Uint32Array.from(grp.indices)
+		};
+		grp.keys.forEach((key, i) => {
+			let [v, vt, vn] = key.split("/").map(Number);
+			mesh.positions.set(positions[v], i * 3);
+			if (mesh.uvs && vt != -1) { mesh.uvs.set(uvs[vt], i * 2); }
+			if (mesh.normals && vn != -1) { mesh.normals.set(normals[vn], i * 3); }
+			if (mesh.colors && colors[v]) { mesh.colors.set(colors[v], i * 4); }
+		});
+		meshes.push(mesh);
+	}
+	return meshes;
+}
@@ -1,20 +1,21 @@
 import { parse } from "../opdecoder";
 import { appearanceUrl, avatarStringToBytes, avatarToModel } from "./avatar";
 import * as THREE from "three";
-import { ThreejsSceneCache, mergeModelDatas, ob3ModelToThree, mergeBoneids, constModelsIds } from '../3d/modeltothree';
+import { ThreejsSceneCache, mergeModelDatas, ob3ModelToThree, mergeBoneids, constModelsIds, geometryIndexLods } from '../3d/modeltothree';
 import { ModelModifications, TypedEmitter, CallbackPromise } from '../utils';
 import { boundMethod } from 'autobind-decorator';
 import { resolveMorphedObject, modifyMesh, MapRect, ParsemapOpts, RSMapChunkData, renderMapSquare, WorldLocation, ThreeJsRenderSection, tiledimensions, parseMapsquare } from '../3d/mapsquare';
-import { AnimationClip, AnimationMixer, Material, Mesh, MeshStandardMaterial, Object3D, Skeleton, SkeletonHelper, SkinnedMesh, Texture, Vector2 } from "three";
-import { mountBakedSkeleton, parseAnimationSequence4 } from "../3d/animationframes";
+import { AnimationAction, AnimationClip, AnimationMixer, BufferAttribute, BufferGeometry, KeyframeTrack, Material, Mesh, MeshStandardMaterial, Object3D, Skeleton, SkeletonHelper, SkinnedMesh, Texture, Vector2 } from "three";
+import { frameSequenceBoneNames, frameSequenceToClip, loadFrameSequence, mountBakedSkeleton } from "../3d/animationframes";
 import { cacheConfigPages, cacheMajors, lastClassicBuildnr } from "../constants";
 import { ModelData } from "../3d/rt7model";
 import { mountSkeletalSkeleton, parseSkeletalAnimation } from "../3d/animationskeletal";
 import { svgfloor } from "../map/svgrender";
-import { ThreeJsRenderer, ThreeJsSceneElement, ThreeJsSceneElementSource } from "../viewer/threejsrender";
+import { exportThreeJsGltf, ThreeJsRenderer, ThreeJsSceneElement, ThreeJsSceneElementSource } from "../viewer/threejsrender";
 import { animgroupconfigs } from "../../generated/animgroupconfigs";
 import fetch from "node-fetch";
 import { MaterialData } from "./jmat";
+import { ParticleEmitterNode } from "./particles";
 import { legacyMajors } from "../cache/legacycache";
 import { classicGroups } from "../cache/classicloader";
 import { mapImageCamera } from "../map";
@@ -198,21 +199,51 @@ export async function materialToModel(sceneCache: ThreejsSceneCache, id: number)
 	});
 }
 
-export class RSModel extends TypedEmitter<{ loaded: undefined, animchanged: number }> implements ThreeJsSceneElementSource {
+//priority the client uses for sequences that don't set one
+const defaultSequencePriority = 5;
+
+type AnimationLayer = {
+	animid: number,
+	clip: AnimationClip,
+	priority: number,
+	//bones this sequence moves when it is interleaved with a lower layer, null for all bones
+	mask: Set<string> | null,
+	fading: boolean,
+	action: AnimationAction | null,
+	//the subset of clip tracks the action currently plays
+	tracks: KeyframeTrack[]
+}
+
+export class RSModel extends TypedEmitter<{ loaded: undefined, animchanged: number, lodchanged: number }> implements ThreeJsSceneElementSource {
 	model: Promise<{ modeldata: ModelData, mesh: Object3D, nullAnim: AnimationClip }>;
-	loaded: { modeldata: ModelData, mesh: Object3D, nullAnim: AnimationClip, matUvAnims: { tex: Texture, v: Vector2 }[] } | null = null;
+	loaded: { modeldata: ModelData, mesh: Object3D, nullAnim: AnimationClip, matUvAnims: { tex: Texture, v: Vector2 }[], particles: ParticleEmitterNode[] } | null = null;
 	cache!: ThreejsSceneCache;
 	rootnode = new THREE.Group();
 	nullAnimPromise = { clip: null as AnimationClip | null, prom: new CallbackPromise<AnimationClip>() };
 	anims: Record<number, { clip: AnimationClip | null, prom: Promise<AnimationClip> }> = {
 		"-1": this.nullAnimPromise
 	};
+	animLayerInfo: Record<number, { priority: number, mask: Set<string> | null }> = {
+		"-1": { priority: 0, mask: null }
+	};
 	mountedanim: AnimationClip | null = null;
 	mixer = new AnimationMixer(this.rootnode);
+	//animations that are currently playing, later layers win over earlier ones with the same priority
+	layers: AnimationLayer[] = [];
 	renderscene: ThreeJsRenderer | null = null;
 	targetAnimId = -1;
 	skeletontype: "none" | "baked" | "full" = "none";
+	//nodes added to the mesh by the currently mounted skeleton
+	skeletonNodes: Object3D[] = [];
+	skeletonMount = Promise.resolve();
+	//skeleton each animation needs, framebase animations use a skeleton baked from the model bones
+	animSkeletons: Record<number, { type: "baked" } | { type: "full", framebaseid: number }> = {};
 	skeletonHelper: SkeletonHelper | null = null;
+	//-1 lets the renderer pick the lod level based on camera distance
+	lodLevel = -1;
+	autoLodLevel = 0;
+	activeLodLevel = 0;
+	lodGeometries: { geo: BufferGeometry, lods: BufferAttribute[] }[] = [];
 
 	cleanup() {
 		this.listeners = {};
@@ -224,7 +255,8 @@ export class RSModel extends TypedEmitter<{ loaded: undefined, animchanged: numb
 	getSceneElements(): ThreeJsSceneElement {
 		return {
 			modelnode: this.rootnode,
-			updateAnimation: this.updateAnimation
+			updateAnimation: this.updateAnimation,
+			setAutoLod: this.setAutoLod
 		}
 	}
 
@@ -239,10 +271,49 @@ export class RSModel extends TypedEmitter<{ loaded: undefined, animchanged: numb
 		this.renderscene?.setCameraLimits();
 	}
 
+	@boundMethod
+	setAutoLod(level: number) {
+		this.autoLodLevel = level;
+		if (this.lodLevel == -1) { this.applyLod(); }
+	}
+
+	setLodLevel(level: number) {
+		this.lodLevel = level;
+		this.applyLod();
+		this.renderscene?.forceFrame();
+	}
+
+	getLodCount() {
+		return Math.max(1, ...this.lodGeometries.map(q => q.lods.length));
+	}
+
+	//total triangle count of the model at each lod level, meshes without lods count fully at every level
+	getLodTriangleCounts() {
+		let counts: number[] = [];
+		for (let i = 0; i < this.getLodCount(); i++) {
+			counts.push(this.lodGeometries.reduce((a, q) => a + q.lods[Math.min(i, q.lods.length - 1)].count / 3, 0));
+		}
+		return counts;
+	}
+
+	private applyLod() {
+		let level = Math.min(this.lodLevel == -1 ? this.autoLodLevel : this.lodLevel, this.getLodCount() - 1);
+		if (level == this.activeLodLevel) { return; }
+		for (let entry of this.lodGeometries) {
+			entry.geo.setIndex(entry.lods[Math.min(level, entry.lods.length - 1)]);
+		}
+		this.activeLodLevel = level;
+		this.emit("lodchanged", level);
+	}
+
 	@boundMethod
 	updateAnimation(delta: number, epochtime: number) {
 		this.mixer.update(delta);
+		for (let layer of this.layers.filter(q => q.fading && q.action && !q.action.enabled)) {
+			this.removeLayer(layer);
+		}
 		this.loaded?.matUvAnims.forEach(q => q.tex.offset.copy(q.v).multiplyScalar(epochtime));
+		this.loaded?.particles.forEach(q => q.update(delta));
 	}
 
 	constructor(cache: ThreejsSceneCache, models: SimpleModelDef, name = "") {
@@ -266,10 +337,17 @@ export class RSModel extends TypedEmitter<{ loaded: undefined, animchanged: numb
 			for (let i = 0; i < Math.max(modeldata.bonecount, modeldata.skincount); i++) { nullbones.push(mesh); }
 			let nullskel = new Skeleton(nullbones as any);
 			let matUvAnims: { tex: Texture, v: Vector2 }[] = [];
+			let particles: ParticleEmitterNode[] = [];
 			mesh.traverse(node => {
+				if (node instanceof ParticleEmitterNode) {
+					particles.push(node);
+				}
 				if (node instanceof SkinnedMesh) {
 					node.bind(nullskel);
 				}
+				if (node instanceof Mesh && node.geometry.index) {
+					this.lodGeometries.push({ geo: node.geometry, lods: geometryIndexLods.get(node.geometry) ?? [node.geometry.index] });
+				}
 				if (node instanceof Mesh && node.material instanceof Material) {
 					let uvExt = node.material.userData.gltfExtensions?.RA_materials_uvanim;
 					if (uvExt) {
@@ -288,30 +366,178 @@ export class RSModel extends TypedEmitter<{ loaded: undefined, animchanged: numb
 			this.nullAnimPromise.prom.done(nullAnim);
 
 			this.rootnode.add(mesh);
-			this.loaded = { mesh, modeldata, nullAnim, matUvAnims };
+			this.loaded = { mesh, modeldata, nullAnim, matUvAnims, particles };
+			//the index buffer still matches the model mods, force it to the current lod selection
+			this.activeLodLevel = -1;
+			this.applyLod();
 			if (this.targetAnimId == -1) { this.setAnimation(-1); }
 			this.onModelLoaded();
 			return this.loaded;
 		})();
 	}
 
-	private mountAnim(clip: AnimationClip) {
+	private canAnimate() {
 		if (!this.loaded) { throw new Error("attempting to mount anim before model is loaded"); }
-		if (this.mountedanim == clip) { return; }
 		//TODO is this required?
-		if (this.loaded.modeldata.bonecount == 0 && this.loaded.modeldata.skincount == 0) { return; }
+		return this.loaded.modeldata.bonecount != 0 || this.loaded.modeldata.skincount != 0;
+	}
 
-		let mesh = this.loaded.mesh;
-		if (mesh.animations.indexOf(clip) == -1) { mesh.animations.push(clip); }
+	//framebase and skeletal animations need a different skeleton, the skeleton is swapped when an
+	//animation of the other type is played, layers of the old type can't keep playing on the new skeleton
+	private mountSkeleton(animid: number) {
+		//mounting the skeletal skeleton is async, make sure two calls don't both mount
+		let prom = this.skeletonMount.then(() => this.swapSkeleton(animid));
+		this.skeletonMount = prom.catch(() => { });
+		return prom;
+	}
+
+	private async swapSkeleton(animid: number) {
+		let skel = this.animSkeletons[animid];
+		if (!skel || skel.type == this.skeletontype) { return; }
+		let mesh = this.loaded!.mesh;
+		for (let layer of this.layers.slice()) { this.removeLayer(layer); }
 		this.mixer.stopAllAction();
-		let action = this.mixer.clipAction(clip, mesh);
-		action.play();
+		//cached actions are bound to the bones of the old skeleton
+		this.mixer.uncacheRoot(mesh);
+		this.skeletonNodes.forEach(q => q.removeFromParent());
+		let oldchildren = new Set(mesh.children);
+		if (skel.type == "full") {
+			await mountSkeletalSkeleton(mesh, this.cache, skel.framebaseid);
+		} else {
+			mountBakedSkeleton(mesh, this.loaded!.modeldata);
+		}
+		this.skeletonNodes = mesh.children.filter(q => !oldchildren.has(q));
+		this.skeletontype = skel.type;
+		this.mountedanim = null;
+	}
+
+	private async mountAnim(clip: AnimationClip, animid: number) {
+		if (!this.canAnimate()) { return; }
+		await this.mountSkeleton(animid);
+		if (this.mountedanim == clip && this.layers.length == 1 && !this.layers[0].fading) { return; }
+
+		for (let layer of this.layers.slice()) { this.removeLayer(layer); }
+		this.mixer.stopAllAction();
+		this.layers.push(this.createLayer(animid, clip));
+		this.updateLayers();
 		// this.skeletonHelper?.removeFromParent();
 		// this.skeletonHelper = new SkeletonHelper(mesh);
 		// (this.renderscene as any)?.scene.add(this.skeletonHelper);
 		this.mountedanim = clip;
 	}
 
+	private createLayer(animid: number, clip: AnimationClip): AnimationLayer {
+		let mesh = this.loaded!.mesh;
+		if (mesh.animations.indexOf(clip) == -1) { mesh.animations.push(clip); }
+		let info = this.animLayerInfo[animid] ?? { priority: defaultSequencePriority, mask: null };
+		return { animid, clip, priority: info.priority, mask: info.mask, fading: false, action: null, tracks: [] };
+	}
+
+	private removeLayer(layer: AnimationLayer) {
+		let index = this.layers.indexOf(layer);
+		if (index != -1) { this.layers.splice(index, 1); }
+		if (layer.action) {
+			layer.action.stop();
+			//masked clips are only used by this layer
+			if (layer.action.getClip() != layer.clip) { this.mixer.uncacheClip(layer.action.getClip()); }
+			layer.action = null;
+		}
+	}
+
+	//gives every bone to the highest priority layer that is allowed to move it, the mask of a sequence
+	//only applies when there is another layer below it, same as interleaving in the client
+	private updateLayers() {
+		let mesh = this.loaded!.mesh;
+		let active = this.layers.filter(q => !q.fading).reverse().sort((a, b) => b.priority - a.priority);
+		let claimed = new Set<string>();
+		for (let [index, layer] of active.entries()) {
+			let mask = (index == active.length - 1 ? null : layer.mask);
+			let tracks = layer.clip.tracks.filter(track => {
+				let bone = track.name.split(".")[0];
+				return !claimed.has(bone) && (!mask || mask.has(bone));
+			});
+			tracks.forEach(q => claimed.add(q.name.split(".")[0]));
+			if (layer.action && tracks.length == layer.tracks.length && tracks.every((q, i) => q == layer.tracks[i])) { continue; }
+
+			let clip = (tracks.length == layer.clip.tracks.length ? layer.clip : new AnimationClip(layer.clip.name, layer.clip.duration, tracks));
+			let action = this.mixer.clipAction(clip, mesh);
+			let time = layer.action?.time ?? 0;
+			if (layer.action) {
+				layer.action.stop();
+				if (layer.action.getClip() != layer.clip) { this.mixer.uncacheClip(layer.action.getClip()); }
+			}
+			action.play();
+			action.time = time;
+			layer.action = action;
+			layer.tracks = tracks;
+		}
+	}
+
+	private replaceFadingLayers(animid: number) {
+		//a fading layer would share its cached action with the new layer
+		for (let layer of this.layers.filter(q => q.animid == animid && q.fading)) {
+			this.removeLayer(layer);
+		}
+	}
+
+	private fadeOutLayer(layer: AnimationLayer, fadetime: number) {
+		if (fadetime > 0 && layer.action) {
+			layer.fading = true;
+			layer.action.fadeOut(fadetime);
+		} else {
+			this.removeLayer(layer);
+		}
+	}
+
+	//plays an animation on top of the current ones, bones outside its mask keep playing the lower layers
+	async addAnimationLayer(animid: number, fadetime = 0) {
+		const mount = this.loadAnimation(animid);
+		let clip = mount.clip ?? await mount.prom;
+		if (!this.canAnimate()) { return; }
+		await this.mountSkeleton(animid);
+		if (this.layers.some(q => q.animid == animid && !q.fading)) { return; }
+		this.replaceFadingLayers(animid);
+		let layer = this.createLayer(animid, clip);
+		this.layers.push(layer);
+		this.updateLayers();
+		if (fadetime > 0) { layer.action?.fadeIn(fadetime); }
+	}
+
+	//blends from the current animation to a new one, layers with a higher priority keep playing
+	async crossfadeAnimation(animid: number, fadetime: number) {
+		const mount = this.loadAnimation(animid);
+		let clip = mount.clip ?? await mount.prom;
+		if (!this.canAnimate()) { return; }
+		await this.mountSkeleton(animid);
+		this.targetAnimId = animid;
+		let priority = this.animLayerInfo[animid]?.priority ?? defaultSequencePriority;
+		for (let other of this.layers.slice()) {
+			if (!other.fading && other.animid != animid && other.priority <= priority) {
+				this.fadeOutLayer(other, fadetime);
+			}
+		}
+		if (!this.layers.some(q => q.animid == animid && !q.fading)) {
+			this.replaceFadingLayers(animid);
+			let layer = this.createLayer(animid, clip);
+			this.layers.push(layer);
+			this.updateLayers();
+			if (fadetime > 0) { layer.action?.fadeIn(fadetime); }
+		} else {
+			this.updateLayers();
+		}
+		this.mountedanim = clip;
+	}
+
+	stopAnimationLayer(animid: number, fadetime = 0) {
+		if (!this.loaded) { return; }
+		for (let layer of this.layers.slice()) {
+			if (layer.animid == animid && !layer.fading) {
+				this.fadeOutLayer(layer, fadetime);
+			}
+		}
+		this.updateLayers();
+	}
+
 	loadAnimation(animid: number) {
 		if (this.anims[animid]) { return this.anims[animid]; }
 		this.anims[animid] = {
@@ -322,28 +548,23 @@ export class RSModel extends TypedEmitter<{ loaded: undefined, animchanged: numb
 				let seq = parse.sequences.read(seqfile, this.cache.engine.rawsource);
 
 				let clip: AnimationClip;
+				//no interleave mask is known for skeletal animations, these always move the whole body
+				let mask: Set<string> | null = null;
 				if (seq.skeletal_animation) {
 					let anim = await parseSkeletalAnimation(this.cache, seq.skeletal_animation);
 					clip = anim.clip;
-					let loaded = this.loaded ?? await this.model;
-					if (this.skeletontype != "full") {
-						if (this.skeletontype != "none") { throw new Error("wrong skeleton type already mounted to model"); }
-						await mountSkeletalSkeleton(loaded.mesh, this.cache, anim.framebaseid);
-						this.skeletontype = "full";
-					}
+					this.animSkeletons[animid] = { type: "full", framebaseid: anim.framebaseid };
 				} else if (seq.frames) {
-					let frameanim = await parseAnimationSequence4(this.cache, seq.frames);
+					let sequence = await loadFrameSequence(this.cache, seq.frames);
 					let loaded = this.loaded ?? await this.model;
-					if (this.skeletontype != "baked") {
-						if (this.skeletontype != "none") { throw new Error("wrong skeleton type already mounted to model"); }
-						mountBakedSkeleton(loaded.mesh, loaded.modeldata);
-						this.skeletontype = "baked";
-					}
-					clip = frameanim(loaded.modeldata);
+					clip = frameSequenceToClip(sequence, loaded.modeldata);
+					this.animSkeletons[animid] = { type: "baked" };
+					if (seq.interleave_labels) { mask = frameSequenceBoneNames(sequence, seq.interleave_labels); }
 				} else {
 					throw new Error("animation has no frames");
 				}
 				this.anims[animid] = { clip, prom: Promise.resolve(clip) };
+				this.animLayerInfo[animid] = { priority: seq.priority ?? defaultSequencePriority, mask };
 
 				if (!this.loaded?.modeldata) { await this.model; }
 				this.anims[animid].clip = clip;
@@ -356,8 +577,59 @@ export class RSModel extends TypedEmitter<{ loaded: undefined, animchanged: numb
 	async setAnimation(animid: number) {
 		this.targetAnimId = animid;
 		const mount = this.loadAnimation(animid);
-		return this.mountAnim(mount.clip ?? await mount.prom);
+		return this.mountAnim(mount.clip ?? await mount.prom, animid);
+	}
+
+	//loads every animation of an animset as named clips to pass to the gltf exporter
+	//a model can only have one skeleton, so only the animations of the mounted skeleton type are included,
+	//the most used type is mounted if there is no skeleton yet
+	//also returns the animations that failed to load or were skipped
+	async loadAnimationSet(anims: Record<string, number>) {
+		let loaded = this.loaded ?? await this.model;
+		let errors: string[] = [];
+		let named: AnimationClip[] = [];
+		if (loaded.modeldata.bonecount == 0 && loaded.modeldata.skincount == 0) { return { clips: named, errors }; }
+		let clips: { name: string, animid: number, clip: AnimationClip }[] = [];
+		for (let [name, animid] of Object.entries(anims)) {
+			if (animid == -1) { continue; }
+			try {
+				let anim = this.loadAnimation(animid);
+				clips.push({ name, animid, clip: anim.clip ?? await anim.prom });
+			} catch (e) {
+				errors.push(`${name} (${animid}): ${(e as Error).message}`);
+			}
+		}
+		if (this.skeletontype == "none") {
+			//nothing is playing yet, so mounting doesn't interrupt any layers
+			let fullcount = clips.filter(q => this.animSkeletons[q.animid]?.type == "full").length;
+			let type = (fullcount * 2 >= clips.length ? "full" : "baked");
+			let mountid = clips.find(q => this.animSkeletons[q.animid]?.type == type)?.animid;
+			if (mountid != undefined) { await this.mountSkeleton(mountid); }
+		}
+		for (let { name, animid, clip } of clips) {
+			if (this.animSkeletons[animid]?.type != this.skeletontype) {
+				errors.push(`${name} (${animid}): uses a different skeleton type than the current animation`);
+				continue;
+			}
+			//the loaded clip is cached and shared with other users of the animation
+			let copy = clip.clone();
+			copy.name = name;
+			named.push(copy);
+		}
+		return { clips: named, errors };
+	}
+}
+
+//loads a model with all of its animations and exports it as glb, doesn't need a renderer or webgl context
+export async function modelInfoToGltf(cache: ThreejsSceneCache, modelinfo: SimpleModelInfo<any, any>) {
+	let model = new RSModel(cache, modelinfo.models, modelinfo.name);
+	let { clips, errors } = await model.loadAnimationSet(modelinfo.anims);
+	for (let error of errors) {
+		console.warn(`skipped animation ${error} of ${modelinfo.name}`);
 	}
+	let res = await exportThreeJsGltf(model.rootnode, clips);
+	model.cleanup();
+	return Buffer.from(res);
 }
 
 export class RSMapChunkGroup extends TypedEmitter<{ loaded: undefined, changed: undefined }> implements ThreeJsSceneElementSource {
@@ -402,6 +674,7 @@ export class RSMapChunk extends TypedEmitter<{ loaded: RSMapChunkData, changed:
 	mixer = new AnimationMixer(this.rootnode);
 	renderscene: ThreeJsRenderer | null = null;
 	toggles: Record<string, boolean> = {};
+	particles: ParticleEmitterNode[] = [];
 	chunkx: number;
 	chunkz: number;
 
@@ -413,6 +686,9 @@ export class RSMapChunk extends TypedEmitter<{ loaded: RSMapChunkData, changed:
 		this.chunkdata = (async () => {
 			this.loaded = await renderMapSquare(cache, preparsed, chunkx, chunkz, opts);
 			this.rootnode.add(this.loaded.chunkroot);
+			this.loaded.chunkroot.traverse(node => {
+				if (node instanceof ParticleEmitterNode) { this.particles.push(node); }
+			});
 			this.onModelLoaded();
 			return this.loaded;
 		})();
@@ -482,10 +758,17 @@ export class RSMapChunk extends TypedEmitter<{ loaded: RSMapChunkData, changed:
 		return svgfloor(this.cache.engine, grid, chunk?.locs ?? [], rect, level, pxpersquare, wallsonly, false);
 	}
 
+	@boundMethod
+	updateAnimation(delta: number) {
+		this.particles.forEach(q => q.update(delta));
+	}
+
 	getSceneElements(): ThreeJsSceneElement {
 		return {
 			modelnode: this.rootnode,
 			sky: this.loaded?.sky,
+			//only animate when needed since this forces continuous rendering
+			updateAnimation: (this.particles.length != 0 ? this.updateAnimation : undefined),
 			options: { hideFloor: true }
 		};
 	}
@@ -511,7 +794,7 @@ export class RSMapChunk extends TypedEmitter<{ loaded: RSMapChunkData, changed:
 			if (node.userData.modelgroup) {
 				let newvis = (hideall ? false : toggles[node.userData.modelgroup] ?? true);
 				node.traverse(child => {
-					if (child instanceof THREE.Mesh) {
+					if (child instanceof THREE.Mesh || child instanceof ParticleEmitterNode) {
 						child.visible = newvis;
 					}
 				});
@@ -27,6 +27,8 @@ import { loadProcTexture } from "./proceduraltexture";
 import { maplabels } from "../../generated/maplabels";
 import { minimapLocMaterial } from "../rs3shaders";
 import { DependencyGraph, getDependencies } from "../scripts/dependencies";
+import { ConfigReferenceIndex, buildConfigReferences } from "../scripts/configrefs";
+import { createParticleEmitters, ModelParticleEffector, ModelParticleEmitter, ParticleEffectorConfig, ParticleEmitterConfig, parseParticleEffector, parseParticleEmitter } from "./particles";
 
 const constModelOffset = 1000000;
 
@@ -205,6 +207,7 @@ export class EngineCache extends CachingFileSource {
 
 	private jsonSearchCache = new Map<string, { files: Promise<any[]>, schema: JSONSchema6Definition }>();
 	private dependencyGraph: Promise<DependencyGraph> | null = null;
+	private configReferences = new Map<boolean, Promise<ConfigReferenceIndex>>();
 
 	static create(source: CacheFileSource) {
 		return new EngineCache(source).preload();
@@ -277,6 +280,20 @@ export class EngineCache extends CachingFileSource {
 		return this.dependencyGraph;
 	}
 
+	getConfigReferences(scripts: boolean) {
+		let cached = this.configReferences.get(scripts);
+		if (!cached) {
+			let prom = buildConfigReferences(this, { scripts });
+			//don't keep failed builds around so the next call can retry
+			prom.catch(() => {
+				if (this.configReferences.get(scripts) == prom) { this.configReferences.delete(scripts); }
+			});
+			this.configReferences.set(scripts, prom);
+			cached = prom;
+		}
+		return cached;
+	}
+
 	async getGameFile(type: keyof LegacyData & keyof typeof cacheMajors, id: number) {
 		if (this.legacyData) {
 			return this.legacyData[type][id];
@@ -531,9 +548,13 @@ export class ThreejsSceneCache {
 	private modelCache = new Map<number, CachedObject<ModelData>>();
 	private threejsTextureCache = new Map<number, CachedObject<ParsedTexture>>();
 	private threejsMaterialCache = new Map<number, CachedObject<ParsedMaterial>>();
+	private particleEmitterCache = new Map<number, CachedObject<ParticleEmitterConfig>>();
+	private particleEffectorCache = new Map<number, CachedObject<ParticleEffectorConfig>>();
 	engine: EngineCache;
 	textureType: TextureModes = "dds";
 	modelType: ModelModes = "nxt";
+	//the particle opcode meanings and scales are unverified guesses, so emitters are only added when enabled
+	particles = false;
 
 	static textureIndices: Record<TextureTypes, Record<Exclude<TextureModes, "none">, number>> = {
 		diffuse: {
@@ -659,9 +680,30 @@ export class ThreejsSceneCache {
 		let matcacheid = materialCacheKey(matid, hasVertexAlpha, minimapVariant);
 		return this.engine.fetchCachedObject(this.threejsMaterialCache, matcacheid, async () => {
 			let material = this.engine.getMaterialData(matid);
-			return convertMaterialToThree(this, material, hasVertexAlpha, minimapVariant);
+			let parsed = await convertMaterialToThree(this, material, hasVertexAlpha, minimapVariant);
+			//userData ends up in the gltf extras, lets the gltf importer map exported materials back to their id
+			parsed.mat.userData = { ...parsed.mat.userData, materialId: matid };
+			return parsed;
 		}, mat => 256 * 256 * 4 * 2);
 	}
+
+	getParticleEmitter(id: number) {
+		return this.engine.fetchCachedObject(this.particleEmitterCache, id, async () => {
+			let arch = await this.engine.getArchiveById(cacheMajors.particles, 0);
+			let file = arch.find(q => q.fileid == id);
+			if (!file) { throw new Error(`particle emitter ${id} not found`); }
+			return parseParticleEmitter(id, parse.particles_0.read(file.buffer, this.engine.rawsource));
+		}, () => 500);
+	}
+
+	getParticleEffector(id: number) {
+		return this.engine.fetchCachedObject(this.particleEffectorCache, id, async () => {
+			let arch = await this.engine.getArchiveById(cacheMajors.particles, 1);
+			let file = arch.find(q => q.fileid == id);
+			if (!file) { throw new Error(`particle effector ${id} not found`); }
+			return parseParticleEffector(id, parse.particles_1.read(file.buffer, this.engine.rawsource));
+		}, () => 100);
+	}
 }
 
 function clamp(num: number) {
@@ -806,6 +848,9 @@ export function mergeModelDatas(models: ModelData[]) {
 	return r;
 }
 
+//all lod index buffers of geometries created from model data, kept out of userData since that ends up in gltf exports
+export const geometryIndexLods = new WeakMap<THREE.BufferGeometry, THREE.BufferAttribute[]>();
+
 export async function ob3ModelToThree(scene: ThreejsSceneCache, model: ModelData) {
 	let rootnode = new Object3D();
 	let nullskeleton: Skeleton = null!;
@@ -819,6 +864,8 @@ export async function ob3ModelToThree(scene: ThreejsSceneCache, model: ModelData
 		nullskeleton = new Skeleton(nullbones as any);
 	}
 
+	let emitters: { mesh: Mesh, ref: ModelParticleEmitter }[] = [];
+	let effectors: { mesh: Mesh, ref: ModelParticleEffector }[] = [];
 	for (let meshdata of model.meshes) {
 		let attrs = meshdata.attributes;
 		let geo = new THREE.BufferGeometry();
@@ -831,6 +878,7 @@ export async function ob3ModelToThree(scene: ThreejsSceneCache, model: ModelData
 		if (attrs.boneids) { geo.setAttribute("RA_skinIndex_bone", attrs.boneids); }
 		if (attrs.boneweights) { geo.setAttribute("RA_skinWeight_bone", attrs.boneweights); }
 		geo.index = meshdata.indices;
+		if (meshdata.indexLODs.length > 1) { geometryIndexLods.set(geo, meshdata.indexLODs); }
 		let mesh: THREE.Mesh | THREE.SkinnedMesh;
 		if (attrs.skinids || attrs.boneids) {
 			mesh = new THREE.SkinnedMesh(geo);
@@ -845,6 +893,12 @@ export async function ob3ModelToThree(scene: ThreejsSceneCache, model: ModelData
 		}
 		applyMaterial(mesh, await scene.getMaterial(meshdata.materialId, meshdata.hasVertexAlpha, false), false);
 		rootnode.add(mesh);
+		meshdata.particleEmitters?.forEach(ref => emitters.push({ mesh, ref }));
+		meshdata.particleEffectors?.forEach(ref => effectors.push({ mesh, ref }));
+	}
+	if (scene.particles && emitters.length != 0) {
+		let particles = await createParticleEmitters(scene, emitters, effectors);
+		if (particles.length != 0) { rootnode.add(...particles); }
 	}
 	if (model.debugmeshes && model.debugmeshes.length != 0) {
 		rootnode.add(...model.debugmeshes);
@@ -0,0 +1,393 @@
+import * as THREE from "three";
+import { BufferAttribute, BufferGeometry, Mesh, Object3D, Points, PointsMaterial, Vector3 } from "three";
+import { particles_0 } from "../../generated/particles_0";
+import { particles_1 } from "../../generated/particles_1";
+import { ThreejsSceneCache } from "./modeltothree";
+
+//most of the particle opcodes are still named unkXX, the meaning of the fields below is a best guess
+//based on the order and types of the opcodes in older clients
+//the scale factors are guesses as well and should be tuned once compared against the game
+
+//raw speed units to model units per second
+const particleSpeedScale = 1 / 64;
+//raw effector strength to model units per second^2
+const effectorStrengthScale = 8;
+//distance in model units at which attached effectors lose half their strength
+const effectorFalloffDistance = 512;
+const maxParticlesPerEmitter = 256;
+//simulated time when an emitter is created, makes sure there are particles in still renders
+//emitters are seeded so the prewarmed state is the same on every render
+const particlePrewarmTime = 2;
+const particleMaxStep = 1 / 20;
+
+type RGBA = [number, number, number, number];
+
+export type ParticleEmitterConfig = {
+	id: number,
+	//spawn cone relative to the emitter face normal in radians, h is around the normal, v away from it
+	minAngleH: number,
+	maxAngleH: number,
+	minAngleV: number,
+	maxAngleV: number,
+	minSpeed: number,
+	maxSpeed: number,
+	endSpeed: number | null,
+	//percentage of the particle lifetime used to transition to the end value
+	speedTransition: number,
+	minSize: number,
+	maxSize: number,
+	endSize: number | null,
+	sizeTransition: number,
+	minColor: RGBA,
+	maxColor: RGBA,
+	endColor: RGBA | null,
+	colorTransition: number,
+	//seconds
+	minLifetime: number,
+	maxLifetime: number,
+	//particles per second
+	minRate: number,
+	maxRate: number,
+	materialId: number,
+	effectorIds: number[],
+	//seconds the emitter is active for, 0 means forever
+	emitterLifetime: number,
+	emitterPeriodic: boolean
+}
+
+export type ParticleEffectorConfig = {
+	id: number,
+	direction: Vector3,
+	strength: number
+}
+
+//emitter reference stored on model meshes, vertex indices are relative to the mesh position attribute
+export type ModelParticleEmitter = {
+	emitterid: number,
+	verts: [number, number, number]
+}
+
+export type ModelParticleEffector = {
+	effectorid: number,
+	vertex: number
+}
+
+function ushortsToInt(hi: number, lo: number) {
+	return ((hi << 16) | lo) >> 0;
+}
+
+function argbToRgba(buf: Uint8Array, offset: number): RGBA {
+	return [buf[offset + 1] / 255, buf[offset + 2] / 255, buf[offset + 3] / 255, buf[offset + 0] / 255];
+}
+
+//angles are stored in 1/2048th of a circle
+function rsAngle(v: number) {
+	return ((v << 16) >> 16) / 2048 * Math.PI * 2;
+}
+
+export function parseParticleEmitter(id: number, raw: particles_0): ParticleEmitterConfig {
+	let speed = (raw.unk03 ? [ushortsToInt(raw.unk03[0], raw.unk03[1]), ushortsToInt(raw.unk03[2], raw.unk03[3])] : [0, 0]);
+	let size = raw.unk05?.[0] ?? 32;
+	let colors: [RGBA, RGBA] = (raw.unk06 ? [argbToRgba(raw.unk06, 0), argbToRgba(raw.unk06, 4)] : [[1, 1, 1, 1], [1, 1, 1, 1]]);
+	return {
+		id,
+		minAngleH: rsAngle(raw.unk01?.[0] ?? 0),
+		maxAngleH: rsAngle(raw.unk01?.[1] ?? 0),
+		minAngleV: rsAngle(raw.unk01?.[2] ?? 0),
+		maxAngleV: rsAngle(raw.unk01?.[3] ?? 0),
+		minSpeed: speed[0] * particleSpeedScale,
+		maxSpeed: speed[1] * particleSpeedScale,
+		endSpeed: (raw.unk16 ? ushortsToInt(raw.unk16[0], raw.unk16[1]) * particleSpeedScale : null),
+		speedTransition: raw.unk17 ?? 100,
+		minSize: size,
+		maxSize: size,
+		endSize: raw.unk1B ?? null,
+		sizeTransition: 100,
+		minColor: colors[0],
+		maxColor: colors[1],
+		endColor: (raw.unk12 ? argbToRgba(raw.unk12, 0) : null),
+		colorTransition: raw.unk13 ?? 100,
+		minLifetime: (raw.unk07?.[0] ?? 1000) / 1000,
+		maxLifetime: (raw.unk07?.[1] ?? 1000) / 1000,
+		minRate: raw.unk08?.[0] ?? 10,
+		maxRate: raw.unk08?.[1] ?? 10,
+		materialId: raw.unk0F ?? -1,
+		effectorIds: [...raw.unk09 ?? [], ...raw.unk0A ?? [], ...raw.unk19 ?? []],
+		emitterLifetime: (raw.unk10 ? raw.unk10[2] / 1000 : 0),
+		emitterPeriodic: (raw.unk10 ? raw.unk10[3] == 1 : false)
+	};
+}
+
+export function parseParticleEffector(id: number, raw: particles_1): ParticleEffectorConfig {
+	let direction = new Vector3();
+	if (raw.unk03) {
+		direction.set(
+			ushortsToInt(raw.unk03[0], raw.unk03[1]),
+			ushortsToInt(raw.unk03[2], raw.unk03[3]),
+			ushortsToInt(raw.unk03[4], raw.unk03[5])
+		).normalize();
+	}
+	//y is inverted in models as well
+	direction.y = -direction.y;
+	let strength = (raw.unk04 ? ushortsToInt(raw.unk04.unk1_0000, raw.unk04.unk2) : 0);
+	return { id, direction, strength: strength * effectorStrengthScale };
+}
+
+//mulberry32, small seedable rng so emitters look the same in every render
+function seededRandom(seed: number) {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	}
+}
+
+function randomRange(random: () => number, min: number, max: number) {
+	return min + random() * (max - min);
+}
+
+function transition(start: number, end: number | null, t: number, percent: number) {
+	if (end == null) { return start; }
+	let frac = (percent <= 0 ? 1 : Math.min(1, t * 100 / percent));
+	return start + (end - start) * frac;
+}
+
+type AttachedEffector = {
+	mesh: Mesh,
+	vertex: number,
+	config: ParticleEffectorConfig
+}
+
+let tmpa = new Vector3();
+let tmpb = new Vector3();
+let tmpc = new Vector3();
+let tmpnormal = new Vector3();
+let tmptangent = new Vector3();
+let tmpbitangent = new Vector3();
+
+/**
+ * Simulates the particles of one emitter on a mesh face, the emitter mesh and this node are expected
+ * to share the same parent so the face position can be used without transforms
+ */
+export class ParticleEmitterNode extends Points {
+	config: ParticleEmitterConfig;
+	sourceMesh: Mesh;
+	sourceVerts: [number, number, number];
+	globalEffectors: ParticleEffectorConfig[];
+	attachedEffectors: AttachedEffector[];
+	emitterAge = 0;
+	spawnDebt = 0;
+	count = 0;
+	random: () => number;
+
+	private velocities = new Float32Array(maxParticlesPerEmitter * 3);
+	private ages = new Float32Array(maxParticlesPerEmitter);
+	private lifetimes = new Float32Array(maxParticlesPerEmitter);
+	private startSpeeds = new Float32Array(maxParticlesPerEmitter);
+	private startSizes = new Float32Array(maxParticlesPerEmitter);
+	private startColors = new Float32Array(maxParticlesPerEmitter * 4);
+	private posattr = new BufferAttribute(new Float32Array(maxParticlesPerEmitter * 3), 3);
+	private colorattr = new BufferAttribute(new Float32Array(maxParticlesPerEmitter * 4), 4);
+	private sizeattr = new BufferAttribute(new Float32Array(maxParticlesPerEmitter), 1);
+
+	constructor(config: ParticleEmitterConfig, material: PointsMaterial, mesh: Mesh, verts: [number, number, number], globalEffectors: ParticleEffectorConfig[], attachedEffectors: AttachedEffector[]) {
+		let geo = new BufferGeometry();
+		super(geo, material);
+		geo.setAttribute("position", this.posattr);
+		geo.setAttribute("color", this.colorattr);
+		geo.setAttribute("ra_particlesize", this.sizeattr);
+		geo.setDrawRange(0, 0);
+		this.config = config;
+		this.sourceMesh = mesh;
+		this.sourceVerts = verts;
+		this.globalEffectors = globalEffectors;
+		this.attachedEffectors = attachedEffectors;
+		//seed on the emitter and its face so multiple emitters on one model don't move in sync
+		this.random = seededRandom(Math.imul(config.id + 1, 0x9e3779b1) ^ Math.imul(verts[0] + 1, 0x85ebca6b) ^ verts[1] ^ (verts[2] << 16));
+		this.name = `particles:${config.id}`;
+		//particles move outside of any bounds we could compute up front
+		this.frustumCulled = false;
+		this.matrixAutoUpdate = false;
+		this.updateMatrix();
+		this.update(particlePrewarmTime);
+	}
+
+	private emitterActive() {
+		let lifetime = this.config.emitterLifetime;
+		if (lifetime <= 0) { return true; }
+		return (this.config.emitterPeriodic ? this.emitterAge % (lifetime * 2) < lifetime : this.emitterAge < lifetime);
+	}
+
+	private spawn(count: number) {
+		let cnf = this.config;
+		let mesh = this.sourceMesh;
+		//uses the skinned position so emitters follow animations
+		mesh.getVertexPosition(this.sourceVerts[0], tmpa).applyMatrix4(mesh.matrix);
+		mesh.getVertexPosition(this.sourceVerts[1], tmpb).applyMatrix4(mesh.matrix);
+		mesh.getVertexPosition(this.sourceVerts[2], tmpc).applyMatrix4(mesh.matrix);
+		tmptangent.subVectors(tmpb, tmpa);
+		tmpnormal.subVectors(tmpc, tmpa).cross(tmptangent).normalize();
+		tmptangent.normalize();
+		tmpbitangent.crossVectors(tmpnormal, tmptangent);
+		for (let n = 0; n < count && this.count < maxParticlesPerEmitter; n++) {
+			let i = this.count++;
+			//random point on the emitter face
+			let u = this.random();
+			let v = this.random();
+			if (u + v > 1) { u = 1 - u; v = 1 - v; }
+			this.posattr.setXYZ(i,
+				tmpa.x + (tmpb.x - tmpa.x) * u + (tmpc.x - tmpa.x) * v,
+				tmpa.y + (tmpb.y - tmpa.y) * u + (tmpc.y - tmpa.y) * v,
+				tmpa.z + (tmpb.z - tmpa.z) * u + (tmpc.z - tmpa.z) * v
+			);
+			let h = randomRange(this.random, cnf.minAngleH, cnf.maxAngleH);
+			let vert = randomRange(this.random, cnf.minAngleV, cnf.maxAngleV);
+			let speed = randomRange(this.random, cnf.minSpeed, cnf.maxSpeed);
+			let side = Math.sin(vert);
+			this.velocities[i * 3 + 0] = (tmpnormal.x * Math.cos(vert) + (tmptangent.x * Math.cos(h) + tmpbitangent.x * Math.sin(h)) * side) * speed;
+			this.velocities[i * 3 + 1] = (tmpnormal.y * Math.cos(vert) + (tmptangent.y * Math.cos(h) + tmpbitangent.y * Math.sin(h)) * side) * speed;
+			this.velocities[i * 3 + 2] = (tmpnormal.z * Math.cos(vert) + (tmptangent.z * Math.cos(h) + tmpbitangent.z * Math.sin(h)) * side) * speed;
+			this.startSpeeds[i] = speed;
+			this.ages[i] = 0;
+			this.lifetimes[i] = randomRange(this.random, cnf.minLifetime, cnf.maxLifetime);
+			this.startSizes[i] = randomRange(this.random, cnf.minSize, cnf.maxSize);
+			let colfrac = this.random();
+			for (let j = 0; j < 4; j++) {
+				this.startColors[i * 4 + j] = cnf.minColor[j] + (cnf.maxColor[j] - cnf.minColor[j]) * colfrac;
+			}
+		}
+	}
+
+	private kill(i: number) {
+		let last = --this.count;
+		if (i == last) { return; }
+		this.posattr.copyAt(i, this.posattr, last);
+		this.velocities.copyWithin(i * 3, last * 3, last * 3 + 3);
+		this.ages[i] = this.ages[last];
+		this.lifetimes[i] = this.lifetimes[last];
+		this.startSpeeds[i] = this.startSpeeds[last];
+		this.startSizes[i] = this.startSizes[last];
+		this.startColors.copyWithin(i * 4, last * 4, last * 4 + 4);
+	}
+
+	private step(delta: number) {
+		let cnf = this.config;
+		this.emitterAge += delta;
+		if (this.emitterActive()) {
+			this.spawnDebt += randomRange(this.random, cnf.minRate, cnf.maxRate) * delta;
+			let spawncount = Math.floor(this.spawnDebt);
+			this.spawnDebt -= spawncount;
+			if (spawncount > 0) { this.spawn(spawncount); }
+		}
+
+		let accel = tmpa.set(0, 0, 0);
+		for (let eff of this.globalEffectors) {
+			accel.addScaledVector(eff.direction, eff.strength);
+		}
+		let effpositions = this.attachedEffectors.map(q => q.mesh.getVertexPosition(q.vertex, new Vector3()).applyMatrix4(q.mesh.matrix));
+		let vel = tmpb;
+		for (let i = 0; i < this.count; i++) {
+			let age = (this.ages[i] += delta);
+			let lifetime = this.lifetimes[i];
+			if (age >= lifetime) {
+				this.kill(i--);
+				continue;
+			}
+			let t = age / lifetime;
+			vel.fromArray(this.velocities, i * 3).addScaledVector(accel, delta);
+			for (let [index, eff] of this.attachedEffectors.entries()) {
+				let dist = tmpc.fromBufferAttribute(this.posattr, i).distanceTo(effpositions[index]);
+				let falloff = effectorFalloffDistance / (effectorFalloffDistance + dist);
+				vel.addScaledVector(eff.config.direction, eff.config.strength * falloff * delta);
+			}
+			if (cnf.endSpeed != null) {
+				let len = vel.length();
+				if (len != 0) { vel.multiplyScalar(transition(this.startSpeeds[i], cnf.endSpeed, t, cnf.speedTransition) / len); }
+			}
+			vel.toArray(this.velocities, i * 3);
+			this.posattr.setXYZ(i,
+				this.posattr.getX(i) + vel.x * delta,
+				this.posattr.getY(i) + vel.y * delta,
+				this.posattr.getZ(i) + vel.z * delta
+			);
+		}
+	}
+
+	update(delta: number) {
+		while (delta > 0) {
+			let step = Math.min(delta, particleMaxStep);
+			this.step(step);
+			delta -= step;
+		}
+		let cnf = this.config;
+		for (let i = 0; i < this.count; i++) {
+			let t = this.ages[i] / this.lifetimes[i];
+			for (let j = 0; j < 4; j++) {
+				let start = this.startColors[i * 4 + j];
+				this.colorattr.array[i * 4 + j] = transition(start, cnf.endColor?.[j] ?? null, t, cnf.colorTransition);
+			}
+			this.sizeattr.array[i] = transition(this.startSizes[i], cnf.endSize, t, cnf.sizeTransition);
+		}
+		this.posattr.needsUpdate = true;
+		this.colorattr.needsUpdate = true;
+		this.sizeattr.needsUpdate = true;
+		this.geometry.setDrawRange(0, this.count);
+	}
+
+	//the particle size attribute is in model units, the material size converts it to world units
+	onBeforeRender() {
+		(this.material as PointsMaterial).size = this.matrixWorld.getMaxScaleOnAxis();
+	}
+}
+
+function particleMaterial(map: THREE.Texture | null) {
+	let mat = new PointsMaterial({
+		map,
+		vertexColors: true,
+		transparent: true,
+		depthWrite: false,
+		sizeAttenuation: true
+	});
+	mat.onBeforeCompile = shader => {
+		shader.vertexShader = shader.vertexShader
+			.replace("uniform float size;", "uniform float size;\nattribute float ra_particlesize;")
+			.replace("gl_PointSize = size;",
+				"gl_PointSize = size * ra_particlesize;\n"
+				//orthographic cameras don't attenuate, scale by the projection instead
+				+ "if (!isPerspectiveMatrix(projectionMatrix)) { gl_PointSize *= scale * projectionMatrix[1][1]; }"
+			);
+	}
+	return mat;
+}
+
+/**
+ * Creates particle emitters for emitter references on meshes, emitters or effectors that fail to load are skipped
+ */
+export async function createParticleEmitters(scene: ThreejsSceneCache, emitters: { mesh: Mesh, ref: ModelParticleEmitter }[], effectors: { mesh: Mesh, ref: ModelParticleEffector }[]) {
+	let attached: AttachedEffector[] = [];
+	for (let eff of effectors) {
+		try {
+			attached.push({ mesh: eff.mesh, vertex: eff.ref.vertex, config: await scene.getParticleEffector(eff.ref.effectorid) });
+		} catch (e) {
+			console.warn(`skipped particle effector ${eff.ref.effectorid}: ${(e as Error).message}`);
+		}
+	}
+	let nodes: ParticleEmitterNode[] = [];
+	for (let emitter of emitters) {
+		try {
+			let config = await scene.getParticleEmitter(emitter.ref.emitterid);
+			let globals = await Promise.all(config.effectorIds.map(id => scene.getParticleEffector(id)));
+			let map: THREE.Texture | null = null;
+			if (config.materialId != -1) {
+				map = ((await scene.getMaterial(config.materialId, true, false)).mat as THREE.MeshBasicMaterial).map ?? null;
+			}
+			nodes.push(new ParticleEmitterNode(config, particleMaterial(map), emitter.mesh, emitter.ref.verts, globals, attached));
+		} catch (e) {
+			console.warn(`skipped particle emitter ${emitter.ref.emitterid}: ${(e as Error).message}`);
+		}
+	}
+	return nodes;
+}
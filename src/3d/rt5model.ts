@@ -5,6 +5,7 @@ import type { CacheFileSource } from "../cache";
 import { BoxGeometry, BufferAttribute, BufferGeometry, CylinderGeometry, LatheGeometry, Matrix3, Matrix4, Mesh, PlaneGeometry, SphereGeometry, Vector2, Vector3 } from "three";
 import { oldmodels } from "../../generated/oldmodels";
 import { ModelData, ModelMeshData } from "./rt7model";
+import { ModelParticleEffector, ModelParticleEmitter } from "./particles";
 
 type OldTextureMapping = {
     // mode: "flat" | "cylinder" | "cube" | "sphere",
@@ -388,6 +389,10 @@ export function parseRT5Model(modelfile: Buffer, source: CacheFileSource) {
         }
     }
 
+    //the submesh and first vertex each face ended up in, used to place particles
+    let facesubmesh: (WorkingSubmesh | null)[] = new Array(modeldata.facecount).fill(null);
+    let facevertbase = new Uint32Array(modeldata.facecount);
+
     let texmapindex = 0;
     let v0 = new Vector3();
     let v1 = new Vector3();
@@ -414,6 +419,8 @@ export function parseRT5Model(modelfile: Buffer, source: CacheFileSource) {
         let submesh = matmesh.get(matargument)!;
         let dstfaceindex = submesh.currentface++;
         let vertbase = dstfaceindex * 3;
+        facesubmesh[i] = submesh;
+        facevertbase[i] = vertbase;
         let posattr = submesh.pos;
         let uvattr = submesh.texuvs;
         let normalattr = submesh.normals;
@@ -538,6 +545,30 @@ export function parseRT5Model(modelfile: Buffer, source: CacheFileSource) {
         indexbuf[dstfaceindex * 3 + 2] = vertbase + 1;
     }
 
+    //the emitter id is named texture in the opcode file
+    let emittersBySubmesh = new Map<WorkingSubmesh, ModelParticleEmitter[]>();
+    for (let particle of modeldata.particles ?? []) {
+        let submesh = facesubmesh[particle.faceid];
+        if (!submesh) { continue; }
+        let vertbase = facevertbase[particle.faceid];
+        let list = emittersBySubmesh.get(submesh) ?? [];
+        //same vertex order as the flipped index buffer
+        list.push({ emitterid: particle.texture, verts: [vertbase + 0, vertbase + 2, vertbase + 1] });
+        emittersBySubmesh.set(submesh, list);
+    }
+    let effectorsBySubmesh = new Map<WorkingSubmesh, ModelParticleEffector[]>();
+    for (let effector of modeldata.effectors ?? []) {
+        //vertices are duplicated per face, use the first face that references the vertex
+        let faceindex = vertexindex.indexOf(effector.vertex);
+        if (faceindex == -1) { continue; }
+        let face = Math.floor(faceindex / 3);
+        let submesh = facesubmesh[face];
+        if (!submesh) { continue; }
+        let list = effectorsBySubmesh.get(submesh) ?? [];
+        list.push({ effectorid: effector.effector, vertex: facevertbase[face] + faceindex % 3 });
+        effectorsBySubmesh.set(submesh, list);
+    }
+
     let meshes = [...matmesh.values()].map<ModelMeshData>(m => {
         let indices = new BufferAttribute(m.index, 1);
         return {
@@ -548,6 +579,8 @@ export function parseRT5Model(modelfile: Buffer, source: CacheFileSource) {
             materialId: m.matid,
             hasVertexAlpha: !!modeldata.alpha,
             needsNormalBlending: true,
+            particleEmitters: emittersBySubmesh.get(m),
+            particleEffectors: effectorsBySubmesh.get(m),
             attributes: {
                 pos: m.pos,
                 color: m.color,
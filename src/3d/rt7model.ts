@@ -1,9 +1,11 @@
-import { Stream, packedHSL2HSL, HSL2RGB, ushortToHalf } from "../utils";
+import { Stream, packedHSL2HSL, HSL2RGB, ushortToHalf, halfToUshort, HSL2packHSL, RGB2HSL } from "../utils";
 import * as THREE from "three";
 import { alignedRefOrCopy, ArrayBufferConstructor } from "./gltfutil";
 import { CacheFileSource } from "../cache";
 import { parse } from "../opdecoder";
 import { models } from "../../generated/models";
+import { ImportedMesh } from "./modelimport";
+import { ModelParticleEffector, ModelParticleEmitter } from "./particles";
 
 export type BoneCenter = {
 	xsum: number,
@@ -29,6 +31,9 @@ export type ModelMeshData = {
 	materialId: number,
 	hasVertexAlpha: boolean,
 	needsNormalBlending: boolean,
+	//particle emitters and effectors are only decoded for ob2 models, the ob3 emitter buffers are skipped
+	particleEmitters?: ModelParticleEmitter[],
+	particleEffectors?: ModelParticleEffector[],
 	attributes: {
 		pos: THREE.BufferAttribute,
 		normals?: THREE.BufferAttribute,
@@ -331,4 +336,212 @@ export function makeModelData(meshes: ModelData["meshes"]) {
 	}
 	let r: ModelData = { maxy, miny, meshes, bonecount: bonecount, skincount: skincount };
 	return r;
-}
\ No newline at end of file
+}
+//the index buffer length is a ushort count of indices, so a mesh can't have more than 65535/3 faces
+const ob3MaxFaces = Math.floor(0xffff / 3);
+
+function splitImportedMesh(mesh: ImportedMesh) {
+	let res: ImportedMesh[] = [];
+	let facecount = mesh.indices.length / 3;
+	for (let facestart = 0; facestart < facecount; facestart += ob3MaxFaces) {
+		let faceend = Math.min(facecount, facestart + ob3MaxFaces);
+		//only keep the vertices used by this chunk of faces
+		let remap = new Map<number, number>();
+		let indices = new Uint32Array((faceend - facestart) * 3);
+		for (let i = 0; i < indices.length; i++) {
+			let old = mesh.indices[facestart * 3 + i];
+			let index = remap.get(old);
+			if (index == undefined) {
+				index = remap.size;
+				remap.set(old, index);
+			}
+			indices[i] = index;
+		}
+		let pick = <T extends Float32Array | Uint16Array>(src: T | null, size: number, type: new (length: number) => T): T | null => {
+			if (!src) { return null; }
+			let dst = new type(remap.size * size);
+			for (let [old, index] of remap) {
+				dst.set(src.subarray(old * size, old * size + size), index * size);
+			}
+			return dst;
+		}
+		res.push({
+			materialId: mesh.materialId,
+			positions: pick(mesh.positions, 3, Float32Array)!,
+			normals: pick(mesh.normals, 3, Float32Array),
+			uvs: pick(mesh.uvs, 2, Float32Array),
+			colors: pick(mesh.colors, 4, Float32Array),
+			joints: pick(mesh.joints, 4, Uint16Array),
+			weights: pick(mesh.weights, 4, Float32Array),
+			indices
+		});
+	}
+	return res;
+}
+
+function computeImportedNormals(mesh: ImportedMesh) {
+	let normals = new Float32Array(mesh.positions.length);
+	let a = new THREE.Vector3(), b = new THREE.Vector3(), c = new THREE.Vector3();
+	for (let i = 0; i < mesh.indices.length; i += 3) {
+		let [i0, i1, i2] = [mesh.indices[i], mesh.indices[i + 1], mesh.indices[i + 2]];
+		a.fromArray(mesh.positions, i0 * 3);
+		b.fromArray(mesh.positions, i1 * 3).sub(a);
+		c.fromArray(mesh.positions, i2 * 3).sub(a);
+		//area weighted face normal
+		b.cross(c);
+		for (let index of [i0, i1, i2]) {
+			normals[index * 3 + 0] += b.x;
+			normals[index * 3 + 1] += b.y;
+			normals[index * 3 + 2] += b.z;
+		}
+	}
+	return normals;
+}
+
+//encodes externally created meshes into the version 3 ob3 layout, which is read by every nxt build
+export function encodeOb3Model(meshes: ImportedMesh[], source: CacheFileSource) {
+	let buildnr = source.getBuildNr();
+	let parts = meshes.flatMap(splitImportedMesh);
+	if (parts.length > 255) { throw new Error("too many meshes in model"); }
+
+	//rs has two kinds of bone ids, meshes that only use one joint per vertex are stored as
+	//old style bone ids (joint ids are shifted by one, see addBoneIdBuffer), other skinned meshes as skin weights
+	let singlejoint = parts.every(mesh => {
+		if (!mesh.weights) { return true; }
+		for (let i = 0; i < mesh.weights.length; i += 4) {
+			if (mesh.weights[i + 1] != 0 || mesh.weights[i + 2] != 0 || mesh.weights[i + 3] != 0) { return false; }
+		}
+		return true;
+	});
+
+	let encoded: NonNullable<models["meshes"]> = parts.map(mesh => {
+		let vertexCount = mesh.positions.length / 3;
+		let faceCount = mesh.indices.length / 3;
+
+		let positionBuffer = new Int16Array(vertexCount * 3);
+		for (let i = 0; i < positionBuffer.length; i++) {
+			let v = Math.round(mesh.positions[i]);
+			if (v < -32768 || v > 32767) { throw new Error("model vertex position out of int16 range"); }
+			positionBuffer[i] = v;
+		}
+
+		let normals = mesh.normals ?? computeImportedNormals(mesh);
+		let normalscale = (buildnr >= 887 ? 127 : 32767);
+		let normalBuffer = (buildnr >= 887 ? new Int8Array(vertexCount * 3) : new Int16Array(vertexCount * 3));
+		for (let i = 0; i < vertexCount; i++) {
+			let len = Math.hypot(normals[i * 3], normals[i * 3 + 1], normals[i * 3 + 2]) || 1;
+			for (let j = 0; j < 3; j++) {
+				normalBuffer[i * 3 + j] = Math.round(normals[i * 3 + j] / len * normalscale);
+			}
+		}
+
+		let uvBuffer = (buildnr >= 887 ? new Uint16Array(vertexCount * 2) : new Float32Array(vertexCount * 2));
+		if (mesh.uvs) {
+			for (let i = 0; i < uvBuffer.length; i++) {
+				uvBuffer[i] = (uvBuffer instanceof Uint16Array ? halfToUshort(mesh.uvs[i]) : mesh.uvs[i]);
+			}
+		}
+
+		//colors are stored per face in this version, use the average of the face vertices
+		let colourBuffer = new Uint16Array(faceCount);
+		let alphaBuffer: Uint8Array | null = null;
+		if (mesh.colors) {
+			let colors = mesh.colors;
+			let hasalpha = false;
+			for (let i = 3; i < colors.length; i += 4) { if (colors[i] < 1) { hasalpha = true; break; } }
+			if (hasalpha) { alphaBuffer = new Uint8Array(faceCount); }
+			for (let i = 0; i < faceCount; i++) {
+				let rgba = [0, 0, 0, 0];
+				for (let j = 0; j < 3; j++) {
+					let index = mesh.indices[i * 3 + j];
+					for (let k = 0; k < 4; k++) { rgba[k] += colors[index * 4 + k] / 3; }
+				}
+				colourBuffer[i] = HSL2packHSL(...RGB2HSL(rgba[0] * 255, rgba[1] * 255, rgba[2] * 255));
+				if (alphaBuffer) { alphaBuffer[i] = Math.round(Math.min(1, rgba[3]) * 255); }
+			}
+		} else {
+			colourBuffer.fill(HSL2packHSL(...RGB2HSL(255, 255, 255)));
+		}
+
+		let boneidBuffer: Uint16Array | null = null;
+		let skin: NonNullable<models["meshes"]>[number]["skin"] = null;
+		if (mesh.joints && mesh.weights) {
+			if (singlejoint) {
+				boneidBuffer = new Uint16Array(vertexCount);
+				for (let i = 0; i < vertexCount; i++) {
+					let joint = mesh.joints[i * 4];
+					boneidBuffer[i] = (joint == 0 ? 0xffff : joint - 1);
+				}
+			} else {
+				let ids: number[] = [];
+				let weights: number[] = [];
+				for (let i = 0; i < vertexCount; i++) {
+					let influences = [0, 1, 2, 3]
+						.map(j => ({ id: mesh.joints![i * 4 + j], weight: mesh.weights![i * 4 + j] }))
+						.filter(q => q.weight > 0)
+						.sort((a, b) => b.weight - a.weight);
+					if (influences.length == 0) { influences.push({ id: 0, weight: 1 }); }
+					let total = influences.reduce((a, q) => a + q.weight, 0);
+					//the last weight is stored as 0 and gets the remainder of 255
+					let remainder = 255;
+					for (let j = 0; j < influences.length; j++) {
+						ids.push(influences[j].id);
+						if (j == influences.length - 1) {
+							weights.push(0);
+						} else {
+							let weight = Math.max(1, Math.min(remainder - 1, Math.round(influences[j].weight / total * 255)));
+							remainder -= weight;
+							weights.push(weight);
+						}
+					}
+				}
+				skin = {
+					skinWeightCount: ids.length,
+					skinBoneBuffer: Uint16Array.from(ids),
+					skinWeightBuffer: Uint8Array.from(weights)
+				};
+			}
+		}
+
+		return {
+			unkint: 0,
+			materialArgument: mesh.materialId + 1,
+			faceCount,
+			hasVertices: 1,
+			hasVertexAlpha: (alphaBuffer ? 1 : 0),
+			hasFaceBones: 0,
+			hasBoneIds: (boneidBuffer ? 1 : 0),
+			isHidden: 0,
+			hasSkin: (skin ? 1 : 0),
+			colourBuffer,
+			alphaBuffer,
+			faceboneidBuffer: null,
+			indexBuffers: [Uint16Array.from(mesh.indices)],
+			vertexCount,
+			positionBuffer,
+			normalBuffer,
+			//TODO the tangent layout is unknown (models.jsonc only reads raw shorts), the client seems fine with zeros
+			tagentBuffer: (buildnr >= 906 ? new Int16Array(vertexCount * 2) : null),
+			uvBuffer,
+			boneidBuffer,
+			skin
+		};
+	});
+
+	let model: models = {
+		format: 1,
+		version: 3,
+		always_0f: 0x0f,
+		meshCount: encoded.length,
+		unkCount0: 0,
+		unkCount1: 0,
+		unkCount2: 0,
+		unkCount3: 0,
+		meshes: encoded,
+		meshdata: null,
+		unk1Buffer: [],
+		unk2Buffer: [],
+		unk3Buffer: []
+	};
+	return parse.models.write(model, source.getDecodeArgs());
+}
@@ -1,4 +1,4 @@
-import { makeImageData } from "../imgutils";
+import { makeImageData, sliceImage } from "../imgutils";
 import { Stream } from "../utils";
 
 export type SubImageData = {
@@ -6,7 +6,32 @@ export type SubImageData = {
 	y: number,
 	fullwidth: number,
 	fullheight: number,
-	img: ImageData
+	img: ImageData,
+	//only known for paletted sprites, used to write them back in the same layout
+	palette?: Buffer,
+	alpha?: boolean,
+	transposed?: boolean
+}
+
+export type SpriteAtlas = {
+	id: number,
+	fullwidth: number,
+	fullheight: number,
+	//rgb palette of the original sprite, index 0 is transparent and not included
+	palette: [number, number, number][] | null,
+	frames: {
+		x: number,
+		y: number,
+		width: number,
+		height: number,
+		alpha: boolean,
+		transposed: boolean,
+		//position in the sprite sheet
+		sheetx?: number,
+		sheety?: number,
+		//separate image file
+		file?: string
+	}[]
 }
 
 export function parseSubsprite(buf: Buffer, palette: Buffer, width: number, height: number, alpha: boolean, transposed: boolean) {
@@ -85,7 +110,7 @@ export function expandSprite(subimg: SubImageData) {
 	if (subimg.x == 0 && subimg.y == 0 && subimg.fullwidth == subimg.img.width && subimg.fullheight == subimg.img.height) {
 		return subimg.img;
 	}
-	let img = new ImageData(subimg.fullwidth, subimg.fullheight);
+	let img = makeImageData(null, subimg.fullwidth, subimg.fullheight);
 	for (let dy = 0; dy < subimg.img.height; dy++) {
 		let instride = subimg.img.width * 4;
 		let inoffset = dy * instride;
@@ -96,7 +121,8 @@ export function expandSprite(subimg: SubImageData) {
 	return img;
 }
 
-export function parseSprite(buf: Buffer) {
+//empty frames are skipped unless keepempty is set, the re-pack and frame modes need them to keep frame indices
+export function parseSprite(buf: Buffer, keepempty = false) {
 	let data = buf.readUInt16BE(buf.length - 2);
 	let format = data >> 15;
 	let count = (data & 0x7FFF);
@@ -124,7 +150,20 @@ export function parseSprite(buf: Buffer) {
 		// }
 		offset = 0;
 		for (let imgdef of subimgs) {
-			if (imgdef.width != 0 && imgdef.height != 0) {
+			if (imgdef.width == 0 || imgdef.height == 0) {
+				//empty frames have no data, they get a 0x0 placeholder image
+				if (!keepempty) { continue; }
+				spriteimgs.push({
+					x: imgdef.x,
+					y: imgdef.y,
+					fullwidth: maxwidth,
+					fullheight: maxheight,
+					img: makeImageData(null, 0, 0),
+					palette,
+					alpha: false,
+					transposed: false
+				});
+			} else {
 				let flags = buf.readUInt8(offset); offset++;
 				let transposed = (flags & 1) != 0;
 				let alpha = (flags & 2) != 0;
@@ -135,7 +174,10 @@ export function parseSprite(buf: Buffer) {
 					y: imgdef.y,
 					fullwidth: maxwidth,
 					fullheight: maxheight,
-					img: subimg.img
+					img: subimg.img,
+					palette,
+					alpha,
+					transposed
 				});
 			}
 		}
@@ -163,7 +205,7 @@ export function parseSprite(buf: Buffer) {
 				imgdata[outoffset + 0] = buf.readUInt8(coloroffset + inoffset * 3 + 0);
 				imgdata[outoffset + 1] = buf.readUInt8(coloroffset + inoffset * 3 + 1);
 				imgdata[outoffset + 2] = buf.readUInt8(coloroffset + inoffset * 3 + 2);
-				imgdata[outoffset + 3] = alpha ? buf.readUInt8(alphaoffset + inoffset + 2) : 255;
+				imgdata[outoffset + 3] = alpha ? buf.readUInt8(alphaoffset + inoffset) : 255;
 			}
 		}
 		spriteimgs.push({
@@ -177,6 +219,191 @@ export function parseSprite(buf: Buffer) {
 	return spriteimgs;
 }
 
+//true color sprites only have one frame without offset
+function writeTrueColorSprite(subimg: SubImageData) {
+	let img = expandSprite(subimg);
+	let { width, height } = img;
+	let pixelcount = width * height;
+	let alpha = false;
+	for (let i = 0; i < pixelcount && !alpha; i++) {
+		if (img.data[i * 4 + 3] != 255) { alpha = true; }
+	}
+	let buf = Buffer.alloc(6 + pixelcount * (alpha ? 4 : 3) + 2);
+	let offset = 0;
+	offset = buf.writeUInt8(0, offset);
+	offset = buf.writeUInt8(alpha ? 1 : 0, offset);
+	offset = buf.writeUInt16BE(width, offset);
+	offset = buf.writeUInt16BE(height, offset);
+	for (let i = 0; i < pixelcount; i++) {
+		buf[offset + i * 3 + 0] = img.data[i * 4 + 0];
+		buf[offset + i * 3 + 1] = img.data[i * 4 + 1];
+		buf[offset + i * 3 + 2] = img.data[i * 4 + 2];
+		if (alpha) { buf[offset + pixelcount * 3 + i] = img.data[i * 4 + 3]; }
+	}
+	buf.writeUInt16BE(0x8000 | 1, buf.length - 2);
+	return buf;
+}
+
+//writes sprites in the format read by parseSprite, paletted if possible and true color otherwise
+export function writeSprite(imgs: SubImageData[]) {
+	if (imgs.length == 0) { throw new Error("sprite needs at least one image"); }
+	let fullwidth = Math.max(...imgs.map(q => Math.max(q.fullwidth, q.x + q.img.width)));
+	let fullheight = Math.max(...imgs.map(q => Math.max(q.fullheight, q.y + q.img.height)));
+
+	let buildPalette = (keeporiginal: boolean) => {
+		let palette: number[] = [];
+		let colorindex = new Map<number, number>();
+		//keep the original palette order so unedited sprites stay byte identical
+		let original = (keeporiginal ? imgs.find(q => q.palette)?.palette : undefined);
+		if (original) {
+			for (let i = 0; i + 2 < original.length; i += 3) {
+				let col = (original[i] << 16) | (original[i + 1] << 8) | original[i + 2];
+				palette.push(col);
+				if (!colorindex.has(col)) { colorindex.set(col, palette.length); }
+			}
+		}
+		let indexedimgs = imgs.map(img => {
+			let data = img.img.data;
+			let pixelcount = img.img.width * img.img.height;
+			let alpha = img.alpha ?? false;
+			for (let i = 0; i < pixelcount && !alpha; i++) {
+				if (data[i * 4 + 3] != 0 && data[i * 4 + 3] != 255) { alpha = true; }
+			}
+			let indices = new Uint8Array(pixelcount);
+			let alphas = new Uint8Array(pixelcount);
+			for (let i = 0; i < pixelcount; i++) {
+				let a = data[i * 4 + 3];
+				let col = (data[i * 4 + 0] << 16) | (data[i * 4 + 1] << 8) | data[i * 4 + 2];
+				if (a == 0 && (!alpha || col == 0)) { continue; }
+				let index = colorindex.get(col);
+				if (index == undefined) {
+					palette.push(col);
+					index = palette.length;
+					colorindex.set(col, index);
+				}
+				indices[i] = index;
+				alphas[i] = a;
+			}
+			return { img, alpha, indices, alphas };
+		});
+		return { palette, indexedimgs };
+	}
+	let { palette, indexedimgs } = buildPalette(true);
+	if (palette.length > 255) {
+		({ palette, indexedimgs } = buildPalette(false));
+	}
+	if (palette.length > 255) {
+		if (imgs.length != 1) { throw new Error(`sprite uses ${palette.length} colors, only 255 colors are supported for sprites with multiple frames`); }
+		return writeTrueColorSprite(imgs[0]);
+	}
+
+	let chunks: Buffer[] = [];
+	for (let { img, alpha, indices, alphas } of indexedimgs) {
+		let { width, height } = img.img;
+		if (width == 0 || height == 0) { continue; }
+		let transposed = img.transposed ?? false;
+		let flags = (transposed ? 1 : 0) | (alpha ? 2 : 0);
+		let data = Buffer.alloc(1 + width * height * (alpha ? 2 : 1));
+		data.writeUInt8(flags, 0);
+		for (let y = 0; y < height; y++) {
+			for (let x = 0; x < width; x++) {
+				let outoffset = (transposed ? y + x * height : x + y * width);
+				data[1 + outoffset] = indices[x + y * width];
+				if (alpha) { data[1 + width * height + outoffset] = alphas[x + y * width]; }
+			}
+		}
+		chunks.push(data);
+	}
+
+	let count = imgs.length;
+	let palettebuf = Buffer.alloc(palette.length * 3);
+	palette.forEach((col, i) => {
+		palettebuf[i * 3 + 0] = (col >> 16) & 0xff;
+		palettebuf[i * 3 + 1] = (col >> 8) & 0xff;
+		palettebuf[i * 3 + 2] = col & 0xff;
+	});
+	let footer = Buffer.alloc(7 + 8 * count);
+	let offset = 0;
+	offset = footer.writeUInt16BE(fullwidth, offset);
+	offset = footer.writeUInt16BE(fullheight, offset);
+	offset = footer.writeUInt8(palette.length, offset);
+	imgs.forEach((img, i) => {
+		footer.writeUInt16BE(img.x, offset + count * 0 + i * 2);
+		footer.writeUInt16BE(img.y, offset + count * 2 + i * 2);
+		footer.writeUInt16BE(img.img.width, offset + count * 4 + i * 2);
+		footer.writeUInt16BE(img.img.height, offset + count * 6 + i * 2);
+	});
+	footer.writeUInt16BE(count & 0x7fff, footer.length - 2);
+	return Buffer.concat([...chunks, palettebuf, footer]);
+}
+
+export function spriteAtlas(id: number, imgs: SubImageData[]): SpriteAtlas {
+	let palette = imgs.find(q => q.palette)?.palette;
+	let palettecolors: SpriteAtlas["palette"] = null;
+	if (palette) {
+		palettecolors = [];
+		for (let i = 0; i + 2 < palette.length; i += 3) {
+			palettecolors.push([palette[i], palette[i + 1], palette[i + 2]]);
+		}
+	}
+	return {
+		id,
+		fullwidth: imgs[0]?.fullwidth ?? 0,
+		fullheight: imgs[0]?.fullheight ?? 0,
+		palette: palettecolors,
+		frames: imgs.map(q => ({
+			x: q.x,
+			y: q.y,
+			width: q.img.width,
+			height: q.img.height,
+			alpha: q.alpha ?? false,
+			transposed: q.transposed ?? false
+		}))
+	};
+}
+
+//applies atlas metadata to edited frame images so they can be passed to writeSprite
+export function atlasToSubImages(atlas: SpriteAtlas, frameimgs: ImageData[]) {
+	let palette = (atlas.palette ? Buffer.from(atlas.palette.flat()) : undefined);
+	return atlas.frames.map<SubImageData>((frame, i) => ({
+		x: frame.x,
+		y: frame.y,
+		fullwidth: atlas.fullwidth,
+		fullheight: atlas.fullheight,
+		img: frameimgs[i],
+		palette,
+		alpha: frame.alpha,
+		transposed: frame.transposed
+	}));
+}
+
+//lays out all frames on a grid of full size cells, frames keep their offset within the cell
+export function spriteSheet(id: number, imgs: SubImageData[]) {
+	let atlas = spriteAtlas(id, imgs);
+	let columns = Math.ceil(Math.sqrt(imgs.length));
+	let rows = Math.ceil(imgs.length / columns);
+	let sheet = makeImageData(null, columns * atlas.fullwidth, rows * atlas.fullheight);
+	imgs.forEach((img, i) => {
+		let frame = atlas.frames[i];
+		frame.sheetx = (i % columns) * atlas.fullwidth + img.x;
+		frame.sheety = Math.floor(i / columns) * atlas.fullheight + img.y;
+		let stride = img.img.width * 4;
+		for (let y = 0; y < img.img.height; y++) {
+			let outoffset = ((frame.sheety + y) * sheet.width + frame.sheetx) * 4;
+			sheet.data.set(img.img.data.subarray(y * stride, (y + 1) * stride), outoffset);
+		}
+	});
+	return { sheet, atlas };
+}
+
+export function spriteFromSheet(sheet: ImageData, atlas: SpriteAtlas) {
+	let frames = atlas.frames.map(frame => {
+		if (frame.sheetx == undefined || frame.sheety == undefined) { throw new Error("atlas frame has no sheet position"); }
+		return sliceImage(sheet, { x: frame.sheetx, y: frame.sheety, width: frame.width, height: frame.height });
+	});
+	return atlasToSubImages(atlas, frames);
+}
+
 export function parseTgaSprite(file: Buffer) {
 	let str = new Stream(file);
 	let idlength = str.readUByte();
@@ -1,5 +1,18 @@
-import { fileToImageData, makeImageData } from "../imgutils";
-import { loadDds, loadKtx } from "./ddsimage";
+import { fileToImageData, makeImageData, pixelsToImageFile } from "../imgutils";
+import { loadDds, loadKtx, readDds, readKtx, writeDds, writeKtx } from "./ddsimage";
+
+export type TextureEncodeOptions = {
+	type: "png" | "dds" | "bmpmips" | "ktx",
+	mipmaps: number,
+	//dxt5 instead of dxt1 or etc2 with eac alpha
+	alpha: boolean,
+	//extra header byte that some textures have
+	textureCount: number | null,
+	//pixels to wrap around the edges, material textures go into an atlas with pre-applied padding
+	padding: number,
+	//old textures are stored as plain png without container
+	rawPng: boolean
+}
 
 export class ParsedTexture {
 	imagefiles: Buffer[];
@@ -11,6 +24,8 @@ export class ParsedTexture {
 	cachedImageDatas: (Promise<ImageData> | null)[];
 	bmpWidth = -1;
 	bmpHeight = -1;
+	textureCount: number | null = null;
+	rawPng = false;
 	filesize: number;
 
 	constructor(texture: Buffer | ImageData, stripAlpha: boolean, isMaterialTexture?: boolean) {
@@ -19,7 +34,7 @@ export class ParsedTexture {
 		this.imagefiles = [];
 		this.cachedDrawables = [];
 		this.cachedImageDatas = [];
-		if (texture instanceof ImageData) {
+		if (!(texture instanceof Uint8Array)) {
 			this.filesize = texture.data.byteLength;
 			this.type = "imagedata";
 			this.mipmaps = 1;
@@ -30,6 +45,7 @@ export class ParsedTexture {
 			if (header == 0x89504e47) {//"%png"
 				//raw png file, used by old textures in index 9 before 2015
 				this.type = "png";
+				this.rawPng = true;
 				this.imagefiles.push(texture);
 				this.mipmaps = 1;
 			} else {
@@ -64,6 +80,7 @@ export class ParsedTexture {
 				}
 				if (extraoffset == 1) {
 					let numtexs = texture.readUint8(offset++);
+					this.textureCount = numtexs;
 					//TODO figure this out further
 				}
 				this.mipmaps = texture.readUInt8(offset++);
@@ -142,6 +159,96 @@ export class ParsedTexture {
 	}
 }
 
+//encode settings that reproduce the layout of an existing texture
+export function textureEncodeOptions(texture: ParsedTexture): TextureEncodeOptions {
+	if (texture.type == "imagedata") { throw new Error("texture has no file format"); }
+	let alpha = true;
+	if (texture.type == "dds") { alpha = readDds(texture.imagefiles[0]).isDxt5; }
+	if (texture.type == "ktx") { alpha = readKtx(texture.imagefiles[0]).isDxt5; }
+	return {
+		type: texture.type,
+		mipmaps: texture.mipmaps,
+		alpha,
+		textureCount: texture.textureCount,
+		padding: (texture.isMaterialTexture && texture.type != "png" ? 32 : 0),
+		rawPng: texture.rawPng
+	};
+}
+
+function padImage(img: ImageData, padding: number) {
+	if (padding == 0) { return img; }
+	let res = makeImageData(null, img.width + padding * 2, img.height + padding * 2);
+	for (let y = 0; y < res.height; y++) {
+		let srcy = ((y - padding) % img.height + img.height) % img.height;
+		for (let x = 0; x < res.width; x++) {
+			let srcx = ((x - padding) % img.width + img.width) % img.width;
+			let srci = (srcy * img.width + srcx) * 4;
+			res.data.set(img.data.subarray(srci, srci + 4), (y * res.width + x) * 4);
+		}
+	}
+	return res;
+}
+
+//2x2 box filter
+function halveImage(img: ImageData) {
+	let width = Math.max(1, img.width >> 1);
+	let height = Math.max(1, img.height >> 1);
+	let res = makeImageData(null, width, height);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			let x1 = Math.min(x * 2 + 1, img.width - 1);
+			let y1 = Math.min(y * 2 + 1, img.height - 1);
+			for (let c = 0; c < 4; c++) {
+				let sum = img.data[(y * 2 * img.width + x * 2) * 4 + c]
+					+ img.data[(y * 2 * img.width + x1) * 4 + c]
+					+ img.data[(y1 * img.width + x * 2) * 4 + c]
+					+ img.data[(y1 * img.width + x1) * 4 + c];
+				res.data[(y * width + x) * 4 + c] = (sum + 2) >> 2;
+			}
+		}
+	}
+	return res;
+}
+
+//inverse of the ParsedTexture constructor and toImageData
+export async function encodeTexture(img: ImageData, opts: TextureEncodeOptions) {
+	if (opts.rawPng) {
+		return pixelsToImageFile(img, "png", 1);
+	}
+	let mips = [padImage(img, opts.padding)];
+	while (mips.length < opts.mipmaps) {
+		mips.push(halveImage(mips[mips.length - 1]));
+	}
+
+	let header: number[] = [];
+	if (opts.textureCount != null) { header.push(opts.textureCount); }
+	header.push(mips.length);
+	let chunks: Buffer[] = [Buffer.from(header)];
+	if (opts.type == "bmpmips") {
+		let size = Buffer.alloc(8);
+		size.writeUInt32BE(mips[0].width, 0);
+		size.writeUInt32BE(mips[0].height, 4);
+		chunks.push(size);
+		//mip sizes are derived from the first image and can't go below 1 pixel
+		mips.forEach((mip, i) => {
+			if (mip.width != mips[0].width >> i || mip.height != mips[0].height >> i) { throw new Error("too many mip levels for bmp texture size"); }
+			chunks.push(Buffer.from(mip.data.buffer, mip.data.byteOffset, mip.data.byteLength));
+		});
+	} else {
+		for (let mip of mips) {
+			let file: Buffer;
+			if (opts.type == "png") { file = await pixelsToImageFile(mip, "png", 1); }
+			else if (opts.type == "dds") { file = writeDds(mip, opts.alpha); }
+			else if (opts.type == "ktx") { file = writeKtx(mip, opts.alpha); }
+			else { throw new Error("unknown format"); }
+			let size = Buffer.alloc(4);
+			size.writeUInt32BE(file.byteLength, 0);
+			chunks.push(size, file);
+		}
+	}
+	return Buffer.concat(chunks);
+}
+
 function loadBmp(bmpdata: Buffer, inwidth: number, inheight: number, padsize = -1, forceOpaque = true) {
 	if (padsize == -1) {
 		padsize = 0;
@@ -1,10 +1,12 @@
 import { GameCacheLoader } from "./sqlite";
 import { WasmGameCacheLoader } from "./sqlitewasm";
 import { ClassicFileSource } from "./classicloader";
+import { Dat2CacheLoader } from "./dat2cache";
+import { DatCacheLoader } from "./datcache";
+import { blobFileOpener, nodeFileOpener } from "./diskstore";
 import { CLIScriptFS, ScriptFS } from "../scriptrunner";
 import { CacheOpts } from "../cliparser";
 import { WebFsScriptFS } from "../viewer/scriptsui";
-//TODO .dat / .dat2
 
 export async function selectFsCache(fs: ScriptFS, opts?: CacheOpts) {
     let files = await fs.readDir(".");
@@ -34,10 +36,18 @@ export async function selectFsCache(fs: ScriptFS, opts?: CacheOpts) {
         }
     }
     if (maxcount == datcount) {
-        //TODO
+        if (fs instanceof CLIScriptFS) {
+            return DatCacheLoader.create(nodeFileOpener(fs.dir, false), fs.dir, opts?.buildnr);
+        } else if (fs instanceof WebFsScriptFS) {
+            return DatCacheLoader.create(blobFileOpener(fs.roothandle), fs.roothandle.name, opts?.buildnr);
+        }
     }
     if (maxcount == dat2count) {
-        //TODO
+        if (fs instanceof CLIScriptFS) {
+            return Dat2CacheLoader.create(nodeFileOpener(fs.dir, !!opts?.writable), fs.dir, !!opts?.writable, opts?.buildnr);
+        } else if (fs instanceof WebFsScriptFS) {
+            return Dat2CacheLoader.create(blobFileOpener(fs.roothandle), fs.roothandle.name, false, opts?.buildnr);
+        }
     }
     if (maxcount == jagcount) {
         return await ClassicFileSource.create(fs);
@@ -18,6 +18,18 @@ export function decompress(input: Buffer, key?: Uint32Array) {
 	}
 }
 
+//compress data in the container format as it comes from the server
+export function compress(input: Buffer, compression: "none" | "zlib") {
+	switch (compression) {
+		case "none":
+			return _uncompressedCompress(input);
+		case "zlib":
+			return _zlibCompress(input);
+		default:
+			throw new Error(`unknown compression type ${compression}`);
+	}
+}
+
 //compress data to use in sqlite BLOBs
 export function compressSqlite(input: Buffer, compression: "zlib") {
 	switch (compression) {
@@ -39,6 +51,14 @@ var _uncompressed = function (input: Buffer) {
 	return output;
 }
 
+function _uncompressedCompress(input: Buffer) {
+	let result = Buffer.alloc(5 + input.byteLength);
+	result.writeUInt8(0, 0x0);
+	result.writeUInt32BE(input.byteLength, 0x1);
+	input.copy(result, 0x5);
+	return result;
+}
+
 /**
  * @param {Buffer} input The input buffer straight from the server
  */
@@ -89,6 +109,17 @@ var _zlib = function (input: Buffer, key?: Uint32Array) {
 	}
 }
 
+function _zlibCompress(input: Buffer) {
+	const zlib = require("zlib") as typeof import("zlib");
+	let compressbytes = zlib.gzipSync(input);
+	let result = Buffer.alloc(1 + 4 + 4 + compressbytes.byteLength);
+	result.writeUInt8(2, 0x0);
+	result.writeUInt32BE(compressbytes.byteLength, 0x1);
+	result.writeUInt32BE(input.byteLength, 0x5);
+	compressbytes.copy(result, 0x9);
+	return result;
+}
+
 export function legacyGzip(input: Buffer) {
 	var zlib = require("zlib") as typeof import("zlib");
 	return zlib.gunzipSync(input);
@@ -0,0 +1,173 @@
+import { CacheIndex, DirectCacheFileSource, packBufferArchive } from "./index";
+import { compress, decompress } from "./compression";
+import { RandomAccessFile, RandomAccessOpener, SectorFile } from "./diskstore";
+import { cacheMajors, latestBuildNumber } from "../constants";
+import { crc32 } from "../libs/crc32util";
+import { parse } from "../opdecoder";
+import type { Openrs2XteaKey } from "./openrs2loader";
+
+export const dat2DataFileName = "main_file_cache.dat2";
+export const dat2IndexFileName = (major: number) => `main_file_cache.idx${major}`;
+
+//size of a js5 container without the optional 2 byte version trailer
+export function js5ContainerLength(container: Buffer) {
+	let compression = container.readUInt8(0);
+	let len = container.readUInt32BE(1);
+	return (compression == 0 ? 5 : 9) + len;
+}
+
+//JS5 flat file cache as used by pre-NXT clients, stored as main_file_cache.dat2 + main_file_cache.idx[major]
+export class Dat2CacheLoader extends DirectCacheFileSource {
+	name: string;
+	writable: boolean;
+	buildnr: number;
+	opener: RandomAccessOpener;
+	datafile: Promise<SectorFile>;
+	indexfiles = new Map<number, Promise<RandomAccessFile | null>>();
+	keysPromise: Promise<void> | null = null;
+
+	static async create(opener: RandomAccessOpener, name: string, writable: boolean, buildnr = latestBuildNumber) {
+		let cache = new Dat2CacheLoader(opener, name, writable, buildnr);
+		await cache.datafile;
+		return cache;
+	}
+
+	constructor(opener: RandomAccessOpener, name: string, writable: boolean, buildnr = latestBuildNumber) {
+		super(false);
+		this.opener = opener;
+		this.name = name;
+		this.writable = writable;
+		this.buildnr = buildnr;
+		this.datafile = opener(dat2DataFileName, writable).then(file => {
+			if (!file) { throw new Error(`${dat2DataFileName} not found`); }
+			return new SectorFile(file, true);
+		});
+	}
+
+	getCacheMeta() {
+		return {
+			name: `dat2:${this.name}`,
+			descr: `build: ${this.buildnr}\nReads JS5 flat file caches (main_file_cache.dat2)`,
+			timestamp: new Date(0)
+		};
+	}
+
+	getBuildNr() {
+		return this.buildnr;
+	}
+
+	getIndexFile(major: number) {
+		let file = this.indexfiles.get(major);
+		if (!file) {
+			file = this.opener(dat2IndexFileName(major), this.writable);
+			this.indexfiles.set(major, file);
+		}
+		return file;
+	}
+
+	//openrs2 exports its flat file caches with a keys.json next to it
+	loadXteaKeys() {
+		this.keysPromise ??= (async () => {
+			let file = await this.opener("keys.json", false);
+			if (!file) { return; }
+			let keys: Openrs2XteaKey[] = JSON.parse((await file.read(0, await file.size())).toString("utf8"));
+			file.close();
+			this.xteakeys ??= new Map();
+			for (let key of keys) {
+				this.xteakeys.set((key.archive << 23) | key.group, new Uint32Array(key.key));
+			}
+			console.log(`loaded ${keys.length} xtea keys`);
+		})();
+		return this.keysPromise;
+	}
+
+	//returns the bytes that could be read if the sector chain is broken, check the container length before using it
+	async getRawContainer(major: number, minor: number) {
+		let indexfile = await this.getIndexFile(major);
+		if (!indexfile) { throw new Error(`cache index ${major} doesn't exist`); }
+		let datafile = await this.datafile;
+		let file = await datafile.readFile(indexfile, major, minor, true);
+		if (!file) { throw new Error(`file ${major}.${minor} not found`); }
+		return file;
+	}
+
+	async getFile(major: number, minor: number, crc?: number) {
+		if (major == cacheMajors.mapsquares) { await this.loadXteaKeys(); }
+		let file = await this.getRawContainer(major, minor);
+		if (file.byteLength < 5 || file.byteLength < js5ContainerLength(file)) { throw new Error(`file ${major}.${minor} is truncated`); }
+		return decompress(file, this.getXteaKey(major, minor));
+	}
+
+	//there is no root index file on disk, build it from the index files instead
+	async generateRootIndex() {
+		let indexfile = await this.getIndexFile(cacheMajors.index);
+		if (!indexfile) { throw new Error("cache index 255 doesn't exist"); }
+		let count = await SectorFile.indexEntryCount(indexfile);
+		let majors: CacheIndex[] = [];
+		for (let minor = 0; minor < count; minor++) {
+			let entry = await SectorFile.readIndexEntry(indexfile, minor);
+			if (!entry) { continue; }
+			let container = await this.getRawContainer(cacheMajors.index, minor);
+			if (container.byteLength < 5 || container.byteLength < js5ContainerLength(container)) { throw new Error(`index file ${minor} is truncated`); }
+			let index = parse.cacheIndex.read(decompress(container), this);
+			majors[minor] = {
+				major: cacheMajors.index,
+				minor,
+				crc: crc32(container, 0, 0, js5ContainerLength(container)),
+				version: index.timestamp,
+				size: entry.size,
+				name: null,
+				subindexcount: index.indices.length,
+				subindices: [0],
+				subnames: null,
+				uncompressed_crc: 0,
+				uncompressed_size: 0
+			};
+		}
+		return majors;
+	}
+
+	async getCacheIndex(major: number) {
+		if (major == cacheMajors.mapsquares) { await this.loadXteaKeys(); }
+		if (major == cacheMajors.index) {
+			let index = this.indexMap.get(major);
+			if (!index) {
+				index = this.generateRootIndex();
+				this.indexMap.set(major, index);
+			}
+			return index;
+		}
+		return super.getCacheIndex(major);
+	}
+
+	async writeContainer(major: number, minor: number, container: Buffer) {
+		if (!this.writable) { throw new Error("cache was not opened as writable"); }
+		let indexfile = await this.getIndexFile(major) ?? await this.opener(dat2IndexFileName(major), true);
+		if (!indexfile) { throw new Error(`failed to create index file for major ${major}`); }
+		this.indexfiles.set(major, Promise.resolve(indexfile));
+		let datafile = await this.datafile;
+		await datafile.writeFile(indexfile, major, minor, container);
+	}
+
+	async writeFile(major: number, minor: number, file: Buffer) {
+		if (this.getXteaKey(major, minor)) { throw new Error("writing xtea encrypted files is not supported"); }
+		let container = compress(file, "zlib");
+		//keep the version trailer of the file we're replacing
+		let old = await this.getRawContainer(major, minor).catch(() => null);
+		if (old && old.byteLength == js5ContainerLength(old) + 2) {
+			container = Buffer.concat([container, old.slice(-2)]);
+		}
+		await this.writeContainer(major, minor, container);
+	}
+
+	writeFileArchive(major: number, minor: number, files: Buffer[]) {
+		return this.writeFile(major, minor, packBufferArchive(files));
+	}
+
+	async close() {
+		(await this.datafile).close();
+		for (let file of this.indexfiles.values()) {
+			(await file)?.close();
+		}
+	}
+}
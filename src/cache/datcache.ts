@@ -0,0 +1,162 @@
+import { CacheIndex, CacheIndexFile, DirectCacheFileSource } from "./index";
+import { legacyGzip } from "./compression";
+import { RandomAccessFile, RandomAccessOpener, SectorFile } from "./diskstore";
+import { legacyGroups, legacyMajors } from "./legacycache";
+import { cacheMajors, lastLegacyBuildnr } from "../constants";
+
+export const datDataFileName = "main_file_cache.dat";
+export const datIndexFileName = (major: number) => `main_file_cache.idx${major}`;
+
+const legacyIndexCount = 5;
+
+//name of the versionlist files that contain crcs and versions of the files in idx1-4
+const versionListNames: Record<number, string> = {
+	1: "MODEL",
+	2: "ANIM",
+	3: "MIDI",
+	4: "MAP"
+};
+
+//pre-JS5 cache as used by legacy clients (2004-2006), stored as main_file_cache.dat + main_file_cache.idx0-4
+export class DatCacheLoader extends DirectCacheFileSource {
+	name: string;
+	buildnr: number;
+	opener: RandomAccessOpener;
+	datafile: Promise<SectorFile>;
+	indexfiles = new Map<number, Promise<RandomAccessFile | null>>();
+
+	static async create(opener: RandomAccessOpener, name: string, buildnr = lastLegacyBuildnr) {
+		let cache = new DatCacheLoader(opener, name, buildnr);
+		await cache.datafile;
+		return cache;
+	}
+
+	constructor(opener: RandomAccessOpener, name: string, buildnr = lastLegacyBuildnr) {
+		super(false);
+		this.opener = opener;
+		this.name = name;
+		if (buildnr > lastLegacyBuildnr) {
+			console.warn(`build ${buildnr} is too new for a .dat cache, treating it as ${lastLegacyBuildnr}`);
+			buildnr = lastLegacyBuildnr;
+		}
+		this.buildnr = buildnr;
+		this.datafile = opener(datDataFileName, false).then(file => {
+			if (!file) { throw new Error(`${datDataFileName} not found`); }
+			return new SectorFile(file, false);
+		});
+	}
+
+	getCacheMeta() {
+		return {
+			name: `dat:${this.name}`,
+			descr: `build: ${this.buildnr}\nReads legacy caches (main_file_cache.dat)`,
+			timestamp: new Date(0)
+		};
+	}
+
+	getBuildNr() {
+		return this.buildnr;
+	}
+
+	getIndexFile(major: number) {
+		let file = this.indexfiles.get(major);
+		if (!file) {
+			file = this.opener(datIndexFileName(major), false);
+			this.indexfiles.set(major, file);
+		}
+		return file;
+	}
+
+	async getRawFile(major: number, minor: number) {
+		let indexfile = await this.getIndexFile(major);
+		if (!indexfile) { throw new Error(`cache index ${major} doesn't exist`); }
+		let datafile = await this.datafile;
+		//sector headers contain the index number +1
+		let file = await datafile.readFile(indexfile, major + 1, minor);
+		if (!file) { throw new Error(`file ${major}.${minor} not found`); }
+		return file;
+	}
+
+	async getFile(major: number, minor: number, crc?: number) {
+		let file = await this.getRawFile(major, minor);
+		if (major == legacyMajors.data) {
+			return file;
+		} else {
+			//gunzip ignores the 2 byte version trailer
+			return legacyGzip(file);
+		}
+	}
+
+	async readVersionList(major: number) {
+		let name = versionListNames[major];
+		if (!name) { return null; }
+		let versions = await this.findSubfileByName(legacyMajors.data, legacyGroups.index, `${name}_VERSION`);
+		let crcs = await this.findSubfileByName(legacyMajors.data, legacyGroups.index, `${name}_CRC`);
+		if (!versions || !crcs) { return null; }
+		return {
+			count: versions.buffer.byteLength / 2,
+			version: (minor: number) => versions!.buffer.readUInt16BE(minor * 2),
+			crc: (minor: number) => crcs!.buffer.readUInt32BE(minor * 4)
+		};
+	}
+
+	async generateIndex(major: number): Promise<CacheIndexFile> {
+		let indices: CacheIndex[] = [];
+		if (major == cacheMajors.index) {
+			for (let minor = 0; minor < legacyIndexCount; minor++) {
+				let file = await this.getIndexFile(minor);
+				if (!file) { continue; }
+				indices[minor] = {
+					major,
+					minor,
+					crc: 0,
+					version: 0,
+					size: 0,
+					name: null,
+					subindexcount: await SectorFile.indexEntryCount(file),
+					subindices: [0],
+					subnames: null
+				};
+			}
+			return indices;
+		}
+
+		let indexfile = await this.getIndexFile(major);
+		if (!indexfile) { throw new Error(`cache index ${major} doesn't exist`); }
+		let versionlist = await this.readVersionList(major).catch(() => null);
+		let count = await SectorFile.indexEntryCount(indexfile);
+		for (let minor = 0; minor < count; minor++) {
+			let entry = await SectorFile.readIndexEntry(indexfile, minor);
+			if (!entry) { continue; }
+			let hasversion = versionlist && minor < versionlist.count;
+			indices[minor] = {
+				major,
+				minor,
+				crc: (hasversion ? versionlist!.crc(minor) : 0),
+				version: (hasversion ? versionlist!.version(minor) : 0),
+				size: entry.size,
+				name: null,
+				subindexcount: 1,
+				subindices: [0],
+				subnames: null
+			};
+		}
+		return indices;
+	}
+
+	getCacheIndex(major: number) {
+		let index = this.indexMap.get(major);
+		if (!index) {
+			index = this.generateIndex(major);
+			this.indexMap.set(major, index);
+		}
+		return index;
+	}
+
+	async close() {
+		(await this.datafile).close();
+		for (let file of this.indexfiles.values()) {
+			(await file)?.close();
+		}
+	}
+}
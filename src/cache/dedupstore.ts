@@ -0,0 +1,201 @@
+import { CacheFileSource, CacheIndex, CacheIndexFile, SubFile, packBufferArchive, packSqliteBufferArchive, unpackSqliteBufferArchive } from "./index";
+import { compressSqlite, decompress } from "./compression";
+import { lastLegacyBuildnr } from "../constants";
+import { sqliteExec, sqliteOpenDatabase, sqlitePrepare, sqliteRunStatement } from "../libs/sqlite3wrap";
+import type * as sqlite3 from "sqlite3";
+import { createHash } from "crypto";
+
+export type DedupBuild = {
+	id: number,
+	name: string,
+	buildnr: number,
+	timestamp: number,
+	descr: string
+}
+
+type StoredSubfiles = [fileid: number, namehash: number | null][];
+
+//sqlite store that contains many cache builds, groups are stored once per unique content and referenced by each build
+export class DedupCacheStore {
+	filename: string;
+	database: sqlite3.Database;
+	statements: {
+		getgroup: sqlite3.Statement,
+		hasgroup: sqlite3.Statement,
+		addgroup: sqlite3.Statement,
+		getbuildgroup: sqlite3.Statement,
+		getbuildmajor: sqlite3.Statement,
+		setbuildgroup: sqlite3.Statement
+	};
+
+	static async open(filename: string, writable: boolean) {
+		let database = await sqliteOpenDatabase(filename, { create: writable, write: writable });
+		if (writable) {
+			await sqliteExec(database, `CREATE TABLE IF NOT EXISTS groups (hash BLOB PRIMARY KEY, subfiles TEXT, data BLOB);`);
+			await sqliteExec(database, `CREATE TABLE IF NOT EXISTS builds (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT UNIQUE, buildnr INT, timestamp INT, descr TEXT);`);
+			await sqliteExec(database, `CREATE TABLE IF NOT EXISTS buildgroups (build INT, major INT, minor INT, hash BLOB, meta TEXT);`);
+			await sqliteExec(database, `CREATE UNIQUE INDEX IF NOT EXISTS buildgroupindex ON buildgroups(build, major, minor);`);
+		}
+		let statements: DedupCacheStore["statements"] = {
+			getgroup: await sqlitePrepare(database, `SELECT subfiles, data FROM groups WHERE hash=?`),
+			hasgroup: await sqlitePrepare(database, `SELECT 1 FROM groups WHERE hash=?`),
+			addgroup: await sqlitePrepare(database, `INSERT OR IGNORE INTO groups(hash, subfiles, data) VALUES (?,?,?)`),
+			getbuildgroup: await sqlitePrepare(database, `SELECT hash, meta FROM buildgroups WHERE build=? AND major=? AND minor=?`),
+			getbuildmajor: await sqlitePrepare(database, `SELECT minor, meta FROM buildgroups WHERE build=? AND major=?`),
+			setbuildgroup: await sqlitePrepare(database, `INSERT OR REPLACE INTO buildgroups(build, major, minor, hash, meta) VALUES (?,?,?,?,?)`)
+		};
+		return new DedupCacheStore(filename, database, statements);
+	}
+
+	constructor(filename: string, database: sqlite3.Database, statements: DedupCacheStore["statements"]) {
+		this.filename = filename;
+		this.database = database;
+		this.statements = statements;
+	}
+
+	async listBuilds(): Promise<DedupBuild[]> {
+		let rows = await sqliteRunStatement(await sqlitePrepare(this.database, `SELECT id, name, buildnr, timestamp, descr FROM builds ORDER BY buildnr, timestamp, id`), []);
+		return rows;
+	}
+
+	async addBuild(name: string, buildnr: number, timestamp: Date, descr: string) {
+		let existing = await sqliteRunStatement(await sqlitePrepare(this.database, `SELECT id FROM builds WHERE name=?`), [name]);
+		if (existing.length != 0) { throw new Error(`a build named ${name} is already imported`); }
+		await sqliteRunStatement(await sqlitePrepare(this.database, `INSERT INTO builds(name, buildnr, timestamp, descr) VALUES (?,?,?,?)`), [name, buildnr, +timestamp, descr]);
+		let rows = await sqliteRunStatement(await sqlitePrepare(this.database, `SELECT id, name, buildnr, timestamp, descr FROM builds WHERE name=?`), [name]);
+		return rows[0] as DedupBuild;
+	}
+
+	//returns the content hash of the group and whether it wasn't stored yet
+	async addGroup(files: SubFile[]) {
+		let subfiles: StoredSubfiles = files.map(q => [q.fileid, q.namehash]);
+		let subfilestext = JSON.stringify(subfiles);
+		let hasher = createHash("sha1");
+		hasher.update(subfilestext);
+		for (let file of files) { hasher.update(file.buffer); }
+		let hash = hasher.digest();
+
+		let existing = await sqliteRunStatement(this.statements.hasgroup, [hash]);
+		if (existing.length != 0) { return { hash, isnew: false }; }
+		let data = compressSqlite(packSqliteBufferArchive(files.map(q => q.buffer)), "zlib");
+		await sqliteRunStatement(this.statements.addgroup, [hash, subfilestext, data]);
+		return { hash, isnew: true };
+	}
+
+	async getGroup(hash: Buffer) {
+		let rows = await sqliteRunStatement(this.statements.getgroup, [hash]);
+		if (rows.length == 0) { throw new Error("group missing from dedup store"); }
+		let subfiles: StoredSubfiles = JSON.parse(rows[0].subfiles);
+		let data = decompress(rows[0].data);
+		let files = unpackSqliteBufferArchive(data, subfiles.map(q => q[0]), null);
+		files.forEach((file, i) => file.namehash = subfiles[i][1]);
+		return files;
+	}
+
+	async setBuildGroup(build: number, major: number, minor: number, hash: Buffer | null, meta: CacheIndex) {
+		await sqliteRunStatement(this.statements.setbuildgroup, [build, major, minor, hash, JSON.stringify(meta)]);
+	}
+
+	async getBuildGroup(build: number, major: number, minor: number) {
+		let rows = await sqliteRunStatement(this.statements.getbuildgroup, [build, major, minor]);
+		if (rows.length == 0) { return null; }
+		return { hash: rows[0].hash as Buffer | null, meta: JSON.parse(rows[0].meta) as CacheIndex };
+	}
+
+	async getBuildIndex(build: number, major: number) {
+		let rows = await sqliteRunStatement(this.statements.getbuildmajor, [build, major]);
+		let index: CacheIndexFile = [];
+		for (let row of rows) {
+			index[row.minor] = JSON.parse(row.meta);
+		}
+		return index;
+	}
+
+	beginTransaction() {
+		return sqliteExec(this.database, `BEGIN TRANSACTION;`);
+	}
+
+	commitTransaction() {
+		return sqliteExec(this.database, `COMMIT;`);
+	}
+
+	close() {
+		this.database.close();
+	}
+}
+
+export class DedupCacheSource extends CacheFileSource {
+	store: DedupCacheStore;
+	build: DedupBuild;
+	//build views opened through openBuild share the store and don't close it
+	ownsstore: boolean;
+	indexMap = new Map<number, Promise<CacheIndexFile>>();
+
+	//opens the newest import of buildnr, or the newest build in the store
+	static async open(filename: string, buildnr?: number) {
+		let store = await DedupCacheStore.open(filename, false);
+		let builds = await store.listBuilds();
+		if (typeof buildnr == "number") { builds = builds.filter(q => q.buildnr == buildnr); }
+		let build = builds.at(-1);
+		if (!build) {
+			store.close();
+			throw new Error(typeof buildnr == "number" ? `build ${buildnr} not found in ${filename}` : `no builds imported in ${filename}`);
+		}
+		return new DedupCacheSource(store, build, true);
+	}
+
+	constructor(store: DedupCacheStore, build: DedupBuild, ownsstore: boolean) {
+		super();
+		this.store = store;
+		this.build = build;
+		this.ownsstore = ownsstore;
+	}
+
+	openBuild(build: DedupBuild) {
+		return new DedupCacheSource(this.store, build, false);
+	}
+
+	getCacheMeta() {
+		return {
+			name: `store:${this.build.name}`,
+			descr: `build: ${this.build.buildnr}\n${this.build.descr}\nImported into ${this.store.filename}`,
+			timestamp: new Date(this.build.timestamp)
+		};
+	}
+
+	getBuildNr() {
+		return this.build.buildnr;
+	}
+
+	getCacheIndex(major: number) {
+		let index = this.indexMap.get(major);
+		if (!index) {
+			index = this.store.getBuildIndex(this.build.id, major);
+			this.indexMap.set(major, index);
+		}
+		return index;
+	}
+
+	async getFileArchive(meta: CacheIndex) {
+		let group = await this.store.getBuildGroup(this.build.id, meta.major, meta.minor);
+		if (!group || !group.hash) { throw new Error(`file ${meta.major}.${meta.minor} not found`); }
+		return this.store.getGroup(group.hash);
+	}
+
+	async getFile(major: number, minor: number, crc?: number) {
+		let group = await this.store.getBuildGroup(this.build.id, major, minor);
+		if (!group || !group.hash) { throw new Error(`file ${major}.${minor} not found`); }
+		let files = await this.store.getGroup(group.hash);
+		if (files.length == 1) { return files[0].buffer; }
+		if (this.getBuildNr() <= lastLegacyBuildnr) {
+			throw new Error("legacy archives are stored as subfiles and can only be read with getFileArchive");
+		}
+		return packBufferArchive(files.map(q => q.buffer));
+	}
+
+	close() {
+		if (this.ownsstore) {
+			this.store.close();
+		}
+	}
+}
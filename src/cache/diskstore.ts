@@ -0,0 +1,210 @@
+import * as fs from "fs";
+import * as path from "path";
+
+//both the .dat and .dat2 formats store files as linked lists of fixed size sectors in one big data file
+//the .idx files contain a 6 byte entry per file with the size and first sector
+const sectorSize = 520;
+const indexEntrySize = 6;
+
+export interface RandomAccessFile {
+	size(): Promise<number>;
+	read(offset: number, length: number): Promise<Buffer>;
+	write(offset: number, data: Buffer): Promise<void>;
+	close(): void;
+}
+
+export type RandomAccessOpener = (filename: string, create: boolean) => Promise<RandomAccessFile | null>;
+
+export function nodeFileOpener(dir: string, writable: boolean): RandomAccessOpener {
+	return async (filename, create) => {
+		let filepath = path.resolve(dir, filename);
+		if (!fs.existsSync(filepath)) {
+			if (!create || !writable) { return null; }
+			await fs.promises.writeFile(filepath, Buffer.alloc(0));
+		}
+		let handle = await fs.promises.open(filepath, (writable ? "r+" : "r"));
+		return {
+			async size() {
+				return (await handle.stat()).size;
+			},
+			async read(offset, length) {
+				let buf = Buffer.alloc(length);
+				let res = await handle.read(buf, 0, length, offset);
+				return buf.slice(0, res.bytesRead);
+			},
+			async write(offset, data) {
+				if (!writable) { throw new Error(`${filename} was not opened as writable`); }
+				await handle.write(data, 0, data.byteLength, offset);
+			},
+			close() {
+				handle.close();
+			}
+		};
+	}
+}
+
+//read-only, used for browser file system handles
+export function blobFileOpener(dir: FileSystemDirectoryHandle): RandomAccessOpener {
+	return async (filename, create) => {
+		let file: File;
+		try {
+			file = await (await dir.getFileHandle(filename)).getFile();
+		} catch {
+			return null;
+		}
+		return {
+			async size() {
+				return file.size;
+			},
+			async read(offset, length) {
+				return Buffer.from(await file.slice(offset, offset + length).arrayBuffer());
+			},
+			async write(offset, data) {
+				throw new Error("can't write to browser backed cache files");
+			},
+			close() { }
+		};
+	}
+}
+
+export type SectorIndexEntry = {
+	size: number,
+	sector: number
+}
+
+export class SectorFile {
+	file: RandomAccessFile;
+	//dat2 uses 4 byte file ids in sector headers for files above 0xffff
+	largeIds: boolean;
+	private writeQueue: Promise<void> = Promise.resolve();
+
+	constructor(file: RandomAccessFile, largeIds: boolean) {
+		this.file = file;
+		this.largeIds = largeIds;
+	}
+
+	static async readIndexEntry(indexfile: RandomAccessFile, fileid: number): Promise<SectorIndexEntry | null> {
+		let entry = await indexfile.read(fileid * indexEntrySize, indexEntrySize);
+		if (entry.byteLength < indexEntrySize) { return null; }
+		let size = entry.readUIntBE(0, 3);
+		let sector = entry.readUIntBE(3, 3);
+		if (sector == 0) { return null; }
+		return { size, sector };
+	}
+
+	static async indexEntryCount(indexfile: RandomAccessFile) {
+		return Math.floor(await indexfile.size() / indexEntrySize);
+	}
+
+	private headerSize(fileid: number) {
+		return (this.largeIds && fileid > 0xffff ? 10 : 8);
+	}
+
+	private readHeader(buf: Buffer, fileid: number) {
+		if (this.headerSize(fileid) == 10) {
+			return { fileid: buf.readUInt32BE(0), chunk: buf.readUInt16BE(4), next: buf.readUIntBE(6, 3), store: buf.readUInt8(9) };
+		} else {
+			return { fileid: buf.readUInt16BE(0), chunk: buf.readUInt16BE(2), next: buf.readUIntBE(4, 3), store: buf.readUInt8(7) };
+		}
+	}
+
+	private writeHeader(buf: Buffer, fileid: number, chunk: number, next: number, storeid: number) {
+		if (this.headerSize(fileid) == 10) {
+			buf.writeUInt32BE(fileid, 0);
+			buf.writeUInt16BE(chunk, 4);
+			buf.writeUIntBE(next, 6, 3);
+			buf.writeUInt8(storeid, 9);
+		} else {
+			buf.writeUInt16BE(fileid, 0);
+			buf.writeUInt16BE(chunk, 2);
+			buf.writeUIntBE(next, 4, 3);
+			buf.writeUInt8(storeid, 7);
+		}
+	}
+
+	/**
+	 * Follows the sector chain of a file, storeid is the value that is written in each sector header to identify the owning index
+	 */
+	//partial returns the data that could be read when the sector chain is broken instead of throwing
+	async readFile(indexfile: RandomAccessFile, storeid: number, fileid: number, partial = false) {
+		let entry = await SectorFile.readIndexEntry(indexfile, fileid);
+		if (!entry) { return null; }
+		let headersize = this.headerSize(fileid);
+		let blocksize = sectorSize - headersize;
+		let result = Buffer.alloc(entry.size);
+		let sector = entry.sector;
+		for (let chunk = 0, offset = 0; offset < entry.size; chunk++) {
+			if (sector == 0) {
+				if (partial) { return result.subarray(0, offset); }
+				throw new Error(`sector chain of file ${storeid}.${fileid} ended early`);
+			}
+			let len = Math.min(blocksize, entry.size - offset);
+			let raw = await this.file.read(sector * sectorSize, headersize + len);
+			if (raw.byteLength != headersize + len) {
+				if (partial) { return result.subarray(0, offset); }
+				throw new Error(`file ${storeid}.${fileid} is truncated`);
+			}
+			let header = this.readHeader(raw, fileid);
+			if (header.fileid != fileid || header.chunk != chunk || header.store != storeid) {
+				if (partial) { return result.subarray(0, offset); }
+				throw new Error(`sector ${sector} does not belong to file ${storeid}.${fileid} chunk ${chunk}`);
+			}
+			raw.copy(result, offset, headersize);
+			offset += len;
+			sector = header.next;
+		}
+		return result;
+	}
+
+	/**
+	 * Overwrites the existing sector chain of the file where possible and appends new sectors at the end of the data file
+	 */
+	writeFile(indexfile: RandomAccessFile, storeid: number, fileid: number, data: Buffer) {
+		let res = this.writeQueue.then(async () => {
+			let headersize = this.headerSize(fileid);
+			let blocksize = sectorSize - headersize;
+			let chunkcount = Math.max(1, Math.ceil(data.byteLength / blocksize));
+
+			//find sectors that we can reuse
+			let sectors: number[] = [];
+			let entry = await SectorFile.readIndexEntry(indexfile, fileid);
+			if (entry) {
+				let sector = entry.sector;
+				for (let chunk = 0; chunk < chunkcount && sector != 0; chunk++) {
+					let raw = await this.file.read(sector * sectorSize, headersize);
+					if (raw.byteLength != headersize) { break; }
+					let header = this.readHeader(raw, fileid);
+					if (header.fileid != fileid || header.chunk != chunk || header.store != storeid) { break; }
+					sectors.push(sector);
+					sector = header.next;
+				}
+			}
+			//sector 0 is never used since a 0 pointer means end of chain
+			let endsector = Math.max(1, Math.ceil(await this.file.size() / sectorSize));
+			while (sectors.length < chunkcount) {
+				sectors.push(endsector++);
+			}
+
+			for (let chunk = 0; chunk < chunkcount; chunk++) {
+				let len = Math.min(blocksize, data.byteLength - chunk * blocksize);
+				let raw = Buffer.alloc(headersize + len);
+				let next = (chunk + 1 < chunkcount ? sectors[chunk + 1] : 0);
+				this.writeHeader(raw, fileid, chunk, next, storeid);
+				data.copy(raw, headersize, chunk * blocksize, chunk * blocksize + len);
+				await this.file.write(sectors[chunk] * sectorSize, raw);
+			}
+
+			let indexentry = Buffer.alloc(indexEntrySize);
+			indexentry.writeUIntBE(data.byteLength, 0, 3);
+			indexentry.writeUIntBE(sectors[0], 3, 3);
+			await indexfile.write(fileid * indexEntrySize, indexentry);
+		});
+		//keep the queue going after errors
+		this.writeQueue = res.catch(() => { });
+		return res;
+	}
+
+	close() {
+		this.file.close();
+	}
+}
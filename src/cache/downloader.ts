@@ -5,16 +5,17 @@ import fetch from "node-fetch";
 import { crc32 } from "../libs/crc32util";
 import { FileParser } from "../opdecoder";
 import { CallbackPromise, delay } from "../utils";
-import { cacheMajors } from "../constants";
+import { cacheMajors, latestBuildNumber } from "../constants";
+import { createFileSourceCache } from "./fscache";
 
-const maxblocksize = 102400;
+export const maxblocksize = 102400;
 
 type ClientConfig = {
 	[id: string]: string | {}
 }
 
 //TODO get rid of this again
-const handshake1 = new FileParser<any>(["struct",
+export const handshake1 = new FileParser<any>(["struct",
 	["type", "ubyte"],
 	["length", "ubyte"],
 	["version1", "uint"],
@@ -23,14 +24,14 @@ const handshake1 = new FileParser<any>(["struct",
 	["lang", "ubyte"]
 ]);
 
-const handshake2 = new FileParser<any>(["struct",
+export const handshake2 = new FileParser<any>(["struct",
 	["op", "ubyte"],
 	["tribyte", "unsigned tribyte"],
 	["short1", "ushort"],
 	["version", "ushort"],
 	["short2", "ushort"]
 ]);
-const filereq1 = new FileParser<any>(["struct",
+export const filereq1 = new FileParser<any>(["struct",
 	["mode", "ubyte"],
 	["major", "ubyte"],
 	["minor", "uint"],
@@ -68,6 +69,11 @@ export function parseClientConfig(cnf: ClientConfig) {
 	return { key, serverVersionMajor, serverVersionMinor, endpoint, port, unknownshort1, unknownshort2 };
 }
 
+//config for js5 servers that don't check the client key, like our own js5server
+export function customServerConfig(endpoint: string, port: number): ParsedClientconfig {
+	return { key: "0".repeat(32), serverVersionMajor: latestBuildNumber, serverVersionMinor: 1, endpoint, port, unknownshort1: 0, unknownshort2: 0 };
+}
+
 export async function downloadServerConfig() {
 	let body: string = await fetch("http://world3.runescape.com/jav_config.ws?binaryType=2").then(r => r.text());
 	let chunks = body.split(/(?:\r\n|\r|\n)/g);
@@ -236,13 +242,19 @@ export class CacheDownloader extends DirectCacheFileSource {
 	socket: DownloadSocket | null = null;
 	socketPromise: Promise<DownloadSocket> | null = null;
 	timestamp = new Date();
+	customServer: boolean;
 
-	constructor() {
+	constructor(config?: ParsedClientconfig) {
 		super(true);
-		this.configPromise = downloadServerConfig().then(parseClientConfig);
+		this.customServer = !!config;
+		this.configPromise = (config ? Promise.resolve(config) : downloadServerConfig().then(parseClientConfig));
+		this.groupCache = createFileSourceCache();
 	}
 
 	getCacheMeta() {
+		if (this.customServer) {
+			return { name: "js5", descr: "Download data from a custom js5 server", timestamp: this.timestamp };
+		}
 		return { name: "live", descr: "Download live data from jagex server", timestamp: this.timestamp };
 	}
 
@@ -264,8 +276,8 @@ export class CacheDownloader extends DirectCacheFileSource {
 	}
 
 	async getFile(major: number, minor: number, crc?: number | undefined): Promise<Buffer> {
-		//music can only be downloaded over http
-		if (major == cacheMajors.music) {
+		//music can only be downloaded over http from the jagex servers
+		if (major == cacheMajors.music && !this.customServer) {
 			let config = await this.configPromise;
 			let indexfiles = await this.getCacheIndex(major);
 			let index = indexfiles.find(q => q && q.major == major && q.minor == minor);
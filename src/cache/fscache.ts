@@ -2,37 +2,80 @@ import { sqliteExec, sqliteOpenDatabase, sqlitePrepare, sqliteRunStatement } fro
 import type * as sqlite3 from "sqlite3";
 import * as fs from "fs/promises";
 import * as path from "path";
+import * as idb from "idb-keyval";
 
 const dbpath = "./cache/fscache.sqlite3";
+const idbname = "rsmv-groupcache";
 
-export class FileSourceFsCache {
+export const defaultFsCacheSize = 4 * 1024 * 1024 * 1024;
+export const defaultIdbCacheSize = 1024 * 1024 * 1024;
+
+export type FileSourceCacheStats = {
+    files: number,
+    size: number,
+    maxsize: number,
+    majors: { major: number, files: number, size: number }[]
+}
+
+//persistent cache of decompressed groups keyed on (major, minor, crc)
+export interface FileSourceCache {
+    addFile(major: number, minor: number, crc: number, file: Buffer): Promise<void>;
+    getFile(major: number, minor: number, crc: number): Promise<Buffer | null>;
+    getStats(): Promise<FileSourceCacheStats>;
+    //evicts least recently used files until the cache fits in maxsize bytes, returns the number of removed bytes
+    prune(maxsize: number): Promise<number>;
+}
+
+export function createFileSourceCache(maxsize?: number): FileSourceCache | null {
+    return FileSourceFsCache.tryCreate(maxsize) ?? FileSourceIdbCache.tryCreate(maxsize);
+}
+
+export class FileSourceFsCache implements FileSourceCache {
     ready: Promise<void>;
     isready: boolean;
+    maxsize: number;
+    totalsize = 0;
     database!: sqlite3.Database;
     getstatement!: sqlite3.Statement;
     setstatement!: sqlite3.Statement;
+    touchstatement!: sqlite3.Statement;
+    sizestatement!: sqlite3.Statement;
 
-    static tryCreate() {
+    static tryCreate(maxsize = defaultFsCacheSize) {
         if (typeof __non_webpack_require__ == "undefined") { return null; }
         try {
             __non_webpack_require__("sqlite3")
         } catch {
             return null;
         }
-        return new FileSourceFsCache(dbpath);
+        return new FileSourceFsCache(dbpath, maxsize);
     }
 
-    constructor(filename: string) {
+    constructor(filename: string, maxsize = defaultFsCacheSize) {
         this.isready = false;
+        this.maxsize = maxsize;
         this.ready = (async () => {
             await fs.mkdir(path.dirname(filename), { recursive: true });
             let database = await sqliteOpenDatabase(filename, { create: true, write: true });
+            this.database = database;
+
+            //older versions stored raw openrs2 containers in a groupcache table, those can't be mixed with decompressed files
+            //the old table is left alone so downgrading still works
+            let oldtable = await sqliteRunStatement(await sqlitePrepare(database, `SELECT name FROM sqlite_master WHERE type='table' AND name='groupcache'`), []);
+            if (oldtable.length != 0) {
+                console.log(`${filename} still has a groupcache table from an older version, it is no longer used and can be dropped manually to free space`);
+            }
+            await sqliteExec(database, `CREATE TABLE IF NOT EXISTS groupfiles (major INT, minor INT, crc UNSIGNED INT, file BLOB, size INT, lastuse INT);`);
+            await sqliteExec(database, `CREATE UNIQUE INDEX IF NOT EXISTS mainindex ON groupfiles(major,minor,crc)`);
+            await sqliteExec(database, `CREATE INDEX IF NOT EXISTS lastuseindex ON groupfiles(lastuse)`);
 
-            await sqliteExec(database, `CREATE TABLE IF NOT EXISTS groupcache (major INT, minor INT, crc UNSIGNED INT, file BLOB);`);
-            await sqliteExec(database, `CREATE UNIQUE INDEX IF NOT EXISTS mainindex ON groupcache(major,minor,crc)`);
+            this.getstatement = await sqlitePrepare(database, `SELECT major, minor, crc, file FROM groupfiles WHERE major=? AND minor=? AND crc=?`);
+            this.setstatement = await sqlitePrepare(database, `INSERT OR REPLACE INTO groupfiles(major,minor,crc,file,size,lastuse) VALUES (?,?,?,?,?,?)`);
+            this.touchstatement = await sqlitePrepare(database, `UPDATE groupfiles SET lastuse=? WHERE major=? AND minor=? AND crc=?`);
+            this.sizestatement = await sqlitePrepare(database, `SELECT size FROM groupfiles WHERE major=? AND minor=? AND crc=?`);
 
-            this.getstatement = await sqlitePrepare(database, `SELECT major, minor, crc, file FROM groupcache WHERE major=? AND minor=? AND crc=?`);
-            this.setstatement = await sqlitePrepare(database, `INSERT INTO groupcache(major,minor,crc,file) VALUES (?,?,?,?)`);
+            let total = await sqliteRunStatement(await sqlitePrepare(database, `SELECT SUM(size) AS total FROM groupfiles`), []);
+            this.totalsize = total[0]?.total ?? 0;
 
             this.isready = true;
         })()
@@ -42,8 +85,14 @@ export class FileSourceFsCache {
         if (!this.isready) {
             await this.ready;
         }
-        console.log("saving", major, minor, crc, "len", file.length);
-        sqliteRunStatement(this.setstatement, [major, minor, crc, file]);
+        //the insert replaces existing rows, don't count those twice
+        let existing = await sqliteRunStatement(this.sizestatement, [major, minor, crc]);
+        await sqliteRunStatement(this.setstatement, [major, minor, crc, file, file.byteLength, Date.now()]);
+        this.totalsize += file.byteLength - (existing[0]?.size ?? 0);
+        if (this.totalsize > this.maxsize) {
+            //prune a bit further so we don't end up pruning after every file
+            await this.prune(this.maxsize * 0.9);
+        }
     }
 
     async getFile(major: number, minor: number, crc: number): Promise<Buffer | null> {
@@ -58,8 +107,138 @@ export class FileSourceFsCache {
             if (!cached[0].file) {
                 throw new Error(`file ${major}.${minor} not found (explicitly missing in cache)`);
             }
+            sqliteRunStatement(this.touchstatement, [Date.now(), major, minor, crc]);
             return cached[0].file;
         }
         return null;
     }
+
+    async getStats(): Promise<FileSourceCacheStats> {
+        if (!this.isready) {
+            await this.ready;
+        }
+        let rows = await sqliteRunStatement(await sqlitePrepare(this.database, `SELECT major, COUNT(*) AS files, SUM(size) AS size FROM groupfiles GROUP BY major ORDER BY major`), []);
+        let majors = rows.map(q => ({ major: q.major as number, files: q.files as number, size: (q.size ?? 0) as number }));
+        return {
+            files: majors.reduce((a, q) => a + q.files, 0),
+            size: majors.reduce((a, q) => a + q.size, 0),
+            maxsize: this.maxsize,
+            majors
+        };
+    }
+
+    async prune(maxsize: number) {
+        if (!this.isready) {
+            await this.ready;
+        }
+        let rows = await sqliteRunStatement(await sqlitePrepare(this.database, `SELECT rowid, size FROM groupfiles ORDER BY lastuse ASC`), []);
+        let total = rows.reduce((a, q) => a + q.size, 0);
+        let removed: number[] = [];
+        let removedsize = 0;
+        for (let row of rows) {
+            if (total - removedsize <= maxsize) { break; }
+            removed.push(row.rowid);
+            removedsize += row.size;
+        }
+        if (removed.length != 0) {
+            let deletestatement = await sqlitePrepare(this.database, `DELETE FROM groupfiles WHERE rowid=?`);
+            await sqliteExec(this.database, `BEGIN TRANSACTION;`);
+            for (let rowid of removed) {
+                await sqliteRunStatement(deletestatement, [rowid]);
+            }
+            await sqliteExec(this.database, `COMMIT;`);
+            if (maxsize == 0) {
+                await sqliteExec(this.database, `VACUUM;`);
+            }
+        }
+        this.totalsize = total - removedsize;
+        return removedsize;
+    }
+}
+
+type IdbCacheMeta = { major: number, minor: number, crc: number, size: number, lastuse: number };
+
+//browser version, file data and usage meta are kept in separate stores so we don't have to load files when pruning
+export class FileSourceIdbCache implements FileSourceCache {
+    datastore: idb.UseStore;
+    metastore: idb.UseStore;
+    maxsize: number;
+    totalsize: Promise<number> | null = null;
+
+    static tryCreate(maxsize = defaultIdbCacheSize) {
+        if (typeof indexedDB == "undefined") { return null; }
+        return new FileSourceIdbCache(maxsize);
+    }
+
+    constructor(maxsize = defaultIdbCacheSize) {
+        this.maxsize = maxsize;
+        this.datastore = idb.createStore(`${idbname}-data`, "files");
+        this.metastore = idb.createStore(`${idbname}-meta`, "meta");
+    }
+
+    getTotalSize() {
+        this.totalsize ??= idb.values<IdbCacheMeta>(this.metastore).then(metas => metas.reduce((a, q) => a + q.size, 0));
+        return this.totalsize;
+    }
+
+    async addFile(major: number, minor: number, crc: number, file: Buffer) {
+        let key = `${major}.${minor}.${crc}`;
+        let meta: IdbCacheMeta = { major, minor, crc, size: file.byteLength, lastuse: Date.now() };
+        let existing = await idb.get<IdbCacheMeta>(key, this.metastore);
+        //store a copy, the buffer might be a view into a larger pooled buffer
+        await idb.set(key, new Uint8Array(file), this.datastore);
+        await idb.set(key, meta, this.metastore);
+        let total = await this.getTotalSize() + file.byteLength - (existing?.size ?? 0);
+        this.totalsize = Promise.resolve(total);
+        if (total > this.maxsize) {
+            await this.prune(this.maxsize * 0.9);
+        }
+    }
+
+    async getFile(major: number, minor: number, crc: number) {
+        let key = `${major}.${minor}.${crc}`;
+        let file = await idb.get<Uint8Array>(key, this.datastore);
+        if (!file) { return null; }
+        idb.update<IdbCacheMeta | undefined>(key, meta => meta && { ...meta, lastuse: Date.now() }, this.metastore);
+        return Buffer.from(file.buffer, file.byteOffset, file.byteLength);
+    }
+
+    async getStats(): Promise<FileSourceCacheStats> {
+        let metas = await idb.values<IdbCacheMeta>(this.metastore);
+        let majors = new Map<number, FileSourceCacheStats["majors"][number]>();
+        for (let meta of metas) {
+            let entry = majors.get(meta.major);
+            if (!entry) {
+                entry = { major: meta.major, files: 0, size: 0 };
+                majors.set(meta.major, entry);
+            }
+            entry.files++;
+            entry.size += meta.size;
+        }
+        return {
+            files: metas.length,
+            size: metas.reduce((a, q) => a + q.size, 0),
+            maxsize: this.maxsize,
+            majors: [...majors.values()].sort((a, b) => a.major - b.major)
+        };
+    }
+
+    async prune(maxsize: number) {
+        let metas = await idb.entries<string, IdbCacheMeta>(this.metastore);
+        metas.sort((a, b) => a[1].lastuse - b[1].lastuse);
+        let total = metas.reduce((a, q) => a + q[1].size, 0);
+        let removed: string[] = [];
+        let removedsize = 0;
+        for (let [key, meta] of metas) {
+            if (total - removedsize <= maxsize) { break; }
+            removed.push(key);
+            removedsize += meta.size;
+        }
+        if (removed.length != 0) {
+            await idb.delMany(removed, this.datastore);
+            await idb.delMany(removed, this.metastore);
+        }
+        this.totalsize = Promise.resolve(total - removedsize);
+        return removedsize;
+    }
 }
@@ -3,6 +3,9 @@ import { cacheConfigPages, cacheMajors, lastClassicBuildnr, lastLegacyBuildnr, l
 import { parse } from "../opdecoder";
 import { cacheFilenameHash } from "../utils";
 import { parseLegacyArchive } from "./legacycache";
+import type { FileSourceCache } from "./fscache";
+import { compress } from "./compression";
+import { cacheindex } from "../../generated/cacheindex";
 
 globalThis.ignoreCache = false;
 
@@ -133,6 +136,22 @@ export function packBufferArchive(buffers: Buffer[]) {
 	return new Archive(buffers).packNetwork();
 }
 
+//packs a group as js5 network container and updates its index entry to match the new container
+export function repackGroup(entry: cacheindex["indices"][number], files: Buffer[]) {
+	let data = packBufferArchive(files);
+	let container = compress(data, "zlib");
+	let newentry: cacheindex["indices"][number] = {
+		...entry,
+		crc: crc32(container),
+		uncompressed_crc: (entry.uncompressed_crc != null ? crc32(data) : null),
+		size: (entry.size != null ? container.byteLength : null),
+		uncompressed_size: (entry.uncompressed_size != null ? data.byteLength : null),
+		//can't recompute these hashes
+		encryption_or_hash: null
+	};
+	return { container, entry: newentry };
+}
+
 export function unpackBufferArchive(buffer: Buffer, subids: number[], namehashes: number[] | null) {
 	if (subids.length == 1) {
 		let r: SubFile[] = [{
@@ -265,6 +284,10 @@ export abstract class CacheFileSource {
 	getFileArchive(index: CacheIndex): Promise<SubFile[]> {
 		throw new Error("not implemented");
 	}
+	//the js5 container as stored on disk or sent by the server, null if the source has no access to it
+	getRawContainer(major: number, minor: number): Promise<Buffer | null> {
+		return Promise.resolve(null);
+	}
 	getCacheIndex(major: number): Promise<CacheIndexFile> {
 		throw new Error("not implemented");
 	}
@@ -336,6 +359,7 @@ export abstract class DirectCacheFileSource extends CacheFileSource {
 	indexMap = new Map<number, Promise<CacheIndexFile>>();
 	requiresCrc: boolean;
 	xteakeys: XteaTable | null = null;
+	groupCache: FileSourceCache | null = null;
 
 	constructor(needscrc: boolean) {
 		super();
@@ -346,8 +370,21 @@ export abstract class DirectCacheFileSource extends CacheFileSource {
 		throw new Error("not implemented");
 	}
 
+	//getFile that goes through the persistent group cache, only possible when the crc is known
+	async getFileCached(major: number, minor: number, crc?: number) {
+		if (!this.groupCache || typeof crc == "undefined" || crc == 0) {//TODO fix places that use a magic 0 crc
+			return this.getFile(major, minor, crc);
+		}
+		let file = await this.groupCache.getFile(major, minor, crc);
+		if (!file) {
+			file = await this.getFile(major, minor, crc);
+			this.groupCache.addFile(major, minor, crc, file).catch(e => console.warn("failed to store file in group cache", e));
+		}
+		return file;
+	}
+
 	async getFileArchive(meta: CacheIndex) {
-		let file = await this.getFile(meta.major, meta.minor, meta.crc);
+		let file = await this.getFileCached(meta.major, meta.minor, meta.crc);
 		if (this.getBuildNr() <= lastLegacyBuildnr) {
 			return parseLegacyArchive(file, meta.major, this.getBuildNr() <= lastClassicBuildnr);
 		} else {
@@ -367,7 +404,7 @@ export abstract class DirectCacheFileSource extends CacheFileSource {
 					let index = await this.getCacheIndex(cacheMajors.index);
 					crc = index[major].crc;
 				}
-				let indexfile = await this.getFile(cacheMajors.index, major, crc);
+				let indexfile = await this.getFileCached(cacheMajors.index, major, crc);
 				let decoded = indexBufferToObject(major, indexfile, this);
 				return decoded;
 			})();
@@ -378,9 +415,10 @@ export abstract class DirectCacheFileSource extends CacheFileSource {
 }
 
 export class CallbackCacheLoader extends DirectCacheFileSource {
-	constructor(fn: CacheFileGetter, needsCrc: boolean) {
+	constructor(fn: CacheFileGetter, needsCrc: boolean, groupcache: FileSourceCache | null = null) {
 		super(needsCrc);
 		this.getFile = fn;
+		this.groupCache = groupcache;
 	}
 
 	getCacheMeta() {
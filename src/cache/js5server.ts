@@ -0,0 +1,215 @@
+import { CacheFileSource, CacheIndex, packBufferArchive, repackGroup } from "./index";
+import { compress } from "./compression";
+import { js5ContainerLength } from "./dat2cache";
+import { filereq1, handshake1, maxblocksize } from "./downloader";
+import { cacheMajors, lastLegacyBuildnr } from "../constants";
+import { crc32 } from "../libs/crc32util";
+import { parse } from "../opdecoder";
+import { cacheindex } from "../../generated/cacheindex";
+import { CallbackPromise } from "../utils";
+import * as net from "net";
+
+//request ops, other ops in the same 10 byte packet format are login state updates we don't care about
+const requestOps = [0x0, 0x1, 0x20, 0x21];
+
+//builds the 255.255 file in the format parsed by rootcacheindex.jsonc
+function encodeRootIndex(majors: CacheIndex[], buildnr: number) {
+	let count = majors.reduce((a, q) => Math.max(a, q.minor + 1), 0);
+	let entrysize = (buildnr >= 816 ? 4 + 4 + 4 + 4 + 64 : buildnr >= 605 ? 4 + 4 + 64 : buildnr >= 457 ? 4 + 4 : 4);
+	let header = (buildnr >= 605 ? 1 : 0);
+	let res = Buffer.alloc(header + count * entrysize);
+	if (header) { res.writeUInt8(count, 0); }
+	for (let minor = 0; minor < count; minor++) {
+		let entry = majors[minor];
+		let offset = header + minor * entrysize;
+		res.writeUInt32BE(entry?.crc ?? 0, offset);
+		if (buildnr >= 457) { res.writeUInt32BE(entry?.version ?? 0, offset + 4); }
+		if (buildnr >= 816) { res.writeUInt32BE(entry?.subindexcount ?? 0, offset + 8); }
+		//the 64 byte whirlpool hash and trailing rsa block aren't checked by our downloader, leave them zero/empty
+	}
+	return res;
+}
+
+//serves the js5 containers of a cache source, either the original containers if the source
+//has access to them or repacked ones with index files rewritten to match the new crcs
+export class Js5ContainerProvider {
+	source: CacheFileSource;
+	rawmode: Promise<boolean> | null = null;
+	repackedIndices = new Map<number, Promise<Buffer>>();
+	rootindex: Promise<Buffer> | null = null;
+
+	constructor(source: CacheFileSource) {
+		if (source.getBuildNr() <= lastLegacyBuildnr) { throw new Error("can only serve JS5 caches"); }
+		this.source = source;
+	}
+
+	//created on first request so a failing source errors in the request instead of as unhandled rejection
+	getRawMode() {
+		this.rawmode ??= (async () => {
+			let root = await this.source.getCacheIndex(cacheMajors.index);
+			let first = root.find(q => q);
+			if (!first) { throw new Error("cache has no indices"); }
+			let raw = await this.source.getRawContainer(cacheMajors.index, first.minor);
+			//nxt caches store their own container format which can't be sent to a js5 client
+			return raw != null && raw.readUInt8(0) <= 3;
+		})();
+		return this.rawmode;
+	}
+
+	async getRawContainer(major: number, minor: number) {
+		let raw = await this.source.getRawContainer(major, minor);
+		if (!raw) { throw new Error(`file ${major}.${minor} not found`); }
+		let length = js5ContainerLength(raw);
+		if (raw.byteLength < length) { throw new Error(`file ${major}.${minor} is truncated`); }
+		//strip the version trailer, it isn't sent over the network
+		return raw.slice(0, length);
+	}
+
+	repackIndex(major: number) {
+		let index = this.repackedIndices.get(major);
+		if (!index) {
+			index = (async () => {
+				console.log(`repacking major ${major} to compute crcs`);
+				let indexfile = parse.cacheIndex.read(await this.source.getFile(cacheMajors.index, major), this.source);
+				let metas = await this.source.getCacheIndex(major);
+				let entries: cacheindex["indices"] = [];
+				for (let entry of indexfile.indices) {
+					let files = await this.source.getFileArchive(metas[entry.minor]).catch(() => null);
+					if (!files) { continue; }
+					entries.push(repackGroup(entry, files.map(q => q.buffer)).entry);
+				}
+				let newindex = parse.cacheIndex.write({
+					format: indexfile.format,
+					timestamp: indexfile.timestamp,
+					flags: indexfile.flags & ~0b10,
+					indices: entries
+				}, this.source.getDecodeArgs());
+				return compress(newindex, "zlib");
+			})();
+			this.repackedIndices.set(major, index);
+		}
+		return index;
+	}
+
+	getRootIndex() {
+		this.rootindex ??= (async () => {
+			let raw = await this.getRawMode();
+			let root = await this.source.getCacheIndex(cacheMajors.index);
+			let majors: CacheIndex[] = [];
+			for (let meta of root) {
+				if (!meta) { continue; }
+				let container = (raw ? await this.getRawContainer(cacheMajors.index, meta.minor) : await this.repackIndex(meta.minor));
+				let version = parse.cacheIndex.read(await this.source.getFile(cacheMajors.index, meta.minor), this.source).timestamp;
+				majors[meta.minor] = { ...meta, crc: crc32(container), version };
+			}
+			return compress(encodeRootIndex(majors, this.source.getBuildNr()), "none");
+		})();
+		return this.rootindex;
+	}
+
+	async getContainer(major: number, minor: number) {
+		if (major == cacheMajors.index && minor == cacheMajors.index) {
+			return this.getRootIndex();
+		}
+		if (await this.getRawMode()) {
+			return this.getRawContainer(major, minor);
+		}
+		if (major == cacheMajors.index) {
+			return this.repackIndex(minor);
+		}
+		let index = await this.source.getCacheIndex(major);
+		let meta = index[minor];
+		if (!meta) { throw new Error(`file ${major}.${minor} not found`); }
+		let files = await this.source.getFileArchive(meta);
+		//same input results in the same compressed output, so this matches the crc in the repacked index
+		return compress(packBufferArchive(files.map(q => q.buffer)), "zlib");
+	}
+}
+
+//answers the handshake and file requests of the js5 protocol as implemented by CacheDownloader
+export class Js5Server {
+	provider: Js5ContainerProvider;
+	server: net.Server;
+	closed = new CallbackPromise();
+
+	constructor(source: CacheFileSource) {
+		this.provider = new Js5ContainerProvider(source);
+		this.server = net.createServer(socket => {
+			this.handleConnection(socket).catch(e => {
+				console.warn("js5 connection error", e);
+				socket.destroy();
+			});
+		});
+		this.server.on("close", () => this.closed.done());
+	}
+
+	listen(port: number, host?: string) {
+		return new Promise<void>((done, err) => {
+			this.server.once("error", err);
+			this.server.listen(port, host, () => done());
+		});
+	}
+
+	close() {
+		this.server.close();
+	}
+
+	async handleConnection(socket: net.Socket) {
+		let pending: Buffer[] = [];
+		let pendingbytes = 0;
+		let waiting: (() => void) | null = null;
+		let ended = false;
+		socket.on("data", data => { pending.push(data); pendingbytes += data.byteLength; waiting?.(); });
+		socket.on("close", () => { ended = true; waiting?.(); });
+		socket.on("error", () => { ended = true; waiting?.(); });
+		let read = async (bytes: number) => {
+			while (pendingbytes < bytes) {
+				if (ended) { return null; }
+				await new Promise<void>(done => waiting = done);
+			}
+			let all = Buffer.concat(pending);
+			pending = [all.slice(bytes)];
+			pendingbytes -= bytes;
+			return all.slice(0, bytes);
+		}
+
+		let header = await read(2);
+		if (!header) { return; }
+		let body = await read(header.readUInt8(1));
+		if (!body) { return; }
+		let handshake = handshake1.read(Buffer.concat([header, body]), this.provider.source);
+		if (handshake.type != 15) { throw new Error(`unexpected handshake type ${handshake.type}`); }
+		console.log(`js5 client connected ${socket.remoteAddress}, version ${handshake.version1}.${handshake.version2}`);
+		socket.write(Buffer.from([0]));
+
+		//responses are written one file at a time so blocks of different files never interleave
+		let queue = Promise.resolve();
+		while (true) {
+			let packet = await read(10);
+			if (!packet) { break; }
+			if (!requestOps.includes(packet.readUInt8(0))) { continue; }
+			let req = filereq1.read(packet, this.provider.source);
+			queue = queue.then(() => this.sendFile(socket, req.major, req.minor));
+		}
+		await queue;
+	}
+
+	async sendFile(socket: net.Socket, major: number, minor: number) {
+		let container: Buffer;
+		try {
+			container = await this.provider.getContainer(major, minor);
+		} catch (e) {
+			//the protocol has no way to report missing files, the client will time out on this one
+			console.warn(`js5 request for ${major}.${minor} failed`, (e as Error).message);
+			return;
+		}
+		for (let offset = 0; offset < container.byteLength;) {
+			let size = Math.min(maxblocksize - 5, container.byteLength - offset);
+			let blockheader = Buffer.alloc(5);
+			blockheader.writeUInt8(major, 0);
+			blockheader.writeUInt32BE(minor, 1);
+			socket.write(Buffer.concat([blockheader, container.slice(offset, offset + size)]));
+			offset += size;
+		}
+	}
+}
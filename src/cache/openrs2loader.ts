@@ -2,9 +2,9 @@ import * as cache from "./index";
 import { decompress, legacyGzip } from "./compression";
 import { cacheMajors, lastLegacyBuildnr, latestBuildNumber } from "../constants";
 import fetch from "node-fetch";
-import { FileSourceFsCache } from "./fscache";
+import { createFileSourceCache } from "./fscache";
 
-const endpoint = `https://archive.openrs2.org`;
+export const defaultOpenrs2Endpoint = `https://archive.openrs2.org`;
 var downloadedBytes = 0;
 
 export type Openrs2CacheMeta = {
@@ -27,7 +27,7 @@ export type Openrs2CacheMeta = {
 	disk_store_valid: boolean
 };
 
-type Openrs2XteaKey = {
+export type Openrs2XteaKey = {
 	archive: number,
 	group: number,
 	name_hash: number,
@@ -36,8 +36,9 @@ type Openrs2XteaKey = {
 	key: [number, number, number, number]
 }
 
-var cachelist: Promise<Openrs2CacheMeta[]> | null = null;
-export function validOpenrs2Caches() {
+var cachelists = new Map<string, Promise<Openrs2CacheMeta[]>>();
+export function validOpenrs2Caches(endpoint = defaultOpenrs2Endpoint) {
+	let cachelist = cachelists.get(endpoint);
 	if (!cachelist) {
 		cachelist = (async () => {
 			const openrs2Blacklist: number[] = [
@@ -73,13 +74,16 @@ export function validOpenrs2Caches() {
 
 			];
 			let allcaches: Openrs2CacheMeta[] = await fetch(`${endpoint}/caches.json`).then(q => q.json());
+			//the blacklist only applies to the ids on openrs2 itself, not to mirrors
+			let blacklist = (endpoint == defaultOpenrs2Endpoint ? openrs2Blacklist : []);
 			let checkedcaches = allcaches.filter(q =>
-				q.language == "en" && q.environment == "live" && !openrs2Blacklist.includes(q.id)
+				q.language == "en" && q.environment == "live" && !blacklist.includes(q.id)
 				&& q.game == "runescape" && q.timestamp && q.builds.length != 0
 			).sort((a, b) => b.builds[0].major - a.builds[0].major || (b.builds[0].minor ?? 0) - (a.builds[0].minor ?? 0) || +new Date(b.timestamp!) - +new Date(a.timestamp!));
 
 			return checkedcaches;
 		})();
+		cachelists.set(endpoint, cachelist);
 	}
 	return cachelist;
 }
@@ -91,18 +95,19 @@ export function openrs2GetEffectiveBuildnr(cachemeta: Openrs2CacheMeta) {
 
 export class Openrs2CacheSource extends cache.DirectCacheFileSource {
 	meta: Openrs2CacheMeta;
+	endpoint: string;
 	buildnr: number;
 	xteaKeysLoaded = false;
 	xteakeysPromise: Promise<void> | null = null;
-	fscache: FileSourceFsCache | null;
 
-	static async fromId(cacheid: number) {
-		let meta = await Openrs2CacheSource.downloadCacheMeta(cacheid);
-		return new Openrs2CacheSource(meta);
+	static async fromId(cacheid: number, endpoint = defaultOpenrs2Endpoint) {
+		let meta = await Openrs2CacheSource.downloadCacheMeta(cacheid, endpoint);
+		return new Openrs2CacheSource(meta, endpoint);
 	}
-	constructor(meta: Openrs2CacheMeta) {
+	constructor(meta: Openrs2CacheMeta, endpoint = defaultOpenrs2Endpoint) {
 		super(false);
 		this.meta = meta;
+		this.endpoint = endpoint;
 		let buildnr = openrs2GetEffectiveBuildnr(meta);
 		if (buildnr != -1) {
 			this.buildnr = buildnr;
@@ -110,11 +115,11 @@ export class Openrs2CacheSource extends cache.DirectCacheFileSource {
 			console.warn("using historic cache for which the build number is not available, treating it as current.");
 			this.buildnr = latestBuildNumber;
 		}
-		this.fscache = FileSourceFsCache.tryCreate();
+		this.groupCache = createFileSourceCache();
 	}
 	getCacheMeta() {
 		return {
-			name: `openrs2:${this.meta.id}`,
+			name: (this.endpoint == defaultOpenrs2Endpoint ? `openrs2:${this.meta.id}` : `openrs2:${this.meta.id}:${this.endpoint}`),
 			descr: `build: ${this.buildnr}`
 				+ `\ndate: ${new Date(this.meta.timestamp ?? "").toDateString()}`
 				+ `\nHistoric cache loaded from openrs2 cache repository.`,
@@ -128,7 +133,7 @@ export class Openrs2CacheSource extends cache.DirectCacheFileSource {
 		if (this.buildnr <= 700 && !this.xteaKeysLoaded && major == cacheMajors.mapsquares) {
 			this.xteakeysPromise ??= (async () => {
 				this.xteakeys ??= new Map();
-				let keys: Openrs2XteaKey[] = await fetch(`${endpoint}/caches/runescape/${this.meta.id}/keys.json`).then(q => q.json());
+				let keys: Openrs2XteaKey[] = await fetch(`${this.endpoint}/caches/runescape/${this.meta.id}/keys.json`).then(q => q.json());
 				for (let key of keys) {
 					//merge into one 31bit int
 					let lookupid = (key.archive << 23) | key.group;
@@ -142,7 +147,7 @@ export class Openrs2CacheSource extends cache.DirectCacheFileSource {
 		return super.getCacheIndex(major);
 	}
 
-	static async downloadCacheMeta(cacheid: number) {
+	static async downloadCacheMeta(cacheid: number, endpoint = defaultOpenrs2Endpoint) {
 		//yep, i used regex on html, sue me
 		let rootindexhtml = await fetch(`${endpoint}/caches/runescape/${cacheid}`).then(q => q.text());
 
@@ -201,7 +206,7 @@ export class Openrs2CacheSource extends cache.DirectCacheFileSource {
 	}
 
 	async downloadFile(major: number, minor: number) {
-		let url = `${endpoint}/caches/runescape/${this.meta.id}/archives/${major}/groups/${minor}.dat`;
+		let url = `${this.endpoint}/caches/runescape/${this.meta.id}/archives/${major}/groups/${minor}.dat`;
 		const req = await fetch(url);
 		if (!req.ok) { throw new Error(`failed to download cache file ${major}.${minor} from openrs2 ${this.meta.id}, http code: ${req.status}`); }
 		const buf = await req.arrayBuffer();
@@ -213,17 +218,13 @@ export class Openrs2CacheSource extends cache.DirectCacheFileSource {
 		return Buffer.from(buf);
 	}
 
+	async getRawContainer(major: number, minor: number) {
+		if (this.buildnr <= lastLegacyBuildnr) { return null; }
+		return this.downloadFile(major, minor);
+	}
+
 	async getFile(major: number, minor: number, crc?: number) {
-		let cachedfile: Buffer | null = null
-		if (this.fscache && typeof crc != "undefined" && crc != 0) {//TODO fix places that use a magic 0 crc
-			cachedfile = await this.fscache.getFile(major, minor, crc);
-		} else {
-			// console.log("uncachable", major, minor, crc);
-		}
-		let rawfile = cachedfile ?? await this.downloadFile(major, minor);
-		if (this.fscache && !cachedfile && typeof crc != "undefined" && crc != 0) {
-			this.fscache.addFile(major, minor, crc, rawfile);
-		}
+		let rawfile = await this.downloadFile(major, minor);
 		if (this.buildnr <= lastLegacyBuildnr) {
 			if (major == 0) {
 				return rawfile;
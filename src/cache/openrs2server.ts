@@ -0,0 +1,161 @@
+import { CacheFileSource, DirectCacheFileSource } from "./index";
+import { Js5ContainerProvider } from "./js5server";
+import type { Openrs2CacheMeta, Openrs2XteaKey } from "./openrs2loader";
+import { cacheMajors } from "../constants";
+import * as http from "http";
+
+type MirrorCache = {
+	id: number,
+	source: CacheFileSource,
+	provider: Js5ContainerProvider,
+	meta: Promise<Openrs2CacheMeta>
+}
+
+function escapeHtml(str: string) {
+	return str.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+//the openrs2 cache page is scraped by Openrs2CacheSource.downloadCacheMeta, keep the table layout the same
+function cacheMetaHtml(meta: Openrs2CacheMeta) {
+	let sourcerows = meta.builds.map((build, i) => `<tr>`
+		+ `<td>${escapeHtml(meta.game)}</td>`
+		+ `<td>${escapeHtml(meta.environment)}</td>`
+		+ `<td>${escapeHtml(meta.language)}</td>`
+		+ `<td>${build.major}${build.minor != null ? `.${build.minor}` : ""}</td>`
+		+ `<td>${escapeHtml(meta.timestamp ?? "")}</td>`
+		+ `<td>${escapeHtml(meta.sources[i] ?? "")}</td>`
+		+ `</tr>`
+	);
+	return `<!DOCTYPE html><html><body>`
+		+ `<h1>Cache</h1><table>`
+		+ `<tr><th>Id</th><td>${meta.id}</td></tr>`
+		+ `<tr><th>Indexes</th><td>${meta.valid_indexes} / ${meta.indexes}</td></tr>`
+		+ `<tr><th>Groups</th><td>${meta.valid_groups} / ${meta.groups}</td></tr>`
+		+ `<tr><th>Keys</th><td>${meta.valid_keys} / ${meta.keys}</td></tr>`
+		+ `<tr><th>Size</th><td>${(meta.size / 1024 / 1024).toFixed(1)} MiB</td></tr>`
+		+ `</table>`
+		+ `<h2>Sources</h2><table>`
+		+ `<tr><th>Game</th><th>Environment</th><th>Language</th><th>Build</th><th>Timestamp</th><th>Name</th></tr>`
+		+ sourcerows.join("")
+		+ `</table></body></html>`;
+}
+
+//serves local caches with the same url layout as archive.openrs2.org so Openrs2CacheSource can use it as endpoint
+export class Openrs2MirrorServer {
+	caches: MirrorCache[] = [];
+	server: http.Server;
+
+	constructor() {
+		this.server = http.createServer((req, res) => {
+			this.handleRequest(req, res).catch(e => {
+				res.writeHead(500, { "Content-Type": "text/plain" });
+				res.end((e as Error).message);
+			});
+		});
+	}
+
+	addCache(source: CacheFileSource) {
+		let id = this.caches.length + 1;
+		let cache: MirrorCache = {
+			id,
+			source,
+			provider: new Js5ContainerProvider(source),
+			meta: this.generateMeta(id, source)
+		};
+		this.caches.push(cache);
+		return cache;
+	}
+
+	async generateMeta(id: number, source: CacheFileSource): Promise<Openrs2CacheMeta> {
+		let sourcemeta = source.getCacheMeta();
+		let rootindex = await source.getCacheIndex(cacheMajors.index);
+		let indexcount = rootindex.filter(q => q).length;
+		//xtea keys are usually loaded along with the mapsquares index
+		if (rootindex[cacheMajors.mapsquares]) { await source.getCacheIndex(cacheMajors.mapsquares).catch(() => null); }
+		let keycount = this.getKeys(source).length;
+		return {
+			id,
+			scope: "runescape",
+			game: "runescape",
+			environment: "live",
+			language: "en",
+			builds: [{ major: source.getBuildNr(), minor: null }],
+			timestamp: sourcemeta.timestamp.toISOString(),
+			sources: [sourcemeta.name],
+			valid_indexes: indexcount,
+			indexes: indexcount,
+			//counting groups would mean loading every index up front
+			valid_groups: 0,
+			groups: 0,
+			valid_keys: keycount,
+			keys: keycount,
+			size: 0,
+			blocks: 0,
+			disk_store_valid: false
+		};
+	}
+
+	getKeys(source: CacheFileSource): Openrs2XteaKey[] {
+		if (!(source instanceof DirectCacheFileSource) || !source.xteakeys) { return []; }
+		return [...source.xteakeys.entries()].map(([lookupid, key]) => ({
+			archive: lookupid >> 23,
+			group: lookupid & 0x7fffff,
+			name_hash: 0,
+			name: null,
+			mapsquare: null,
+			key: [...key] as Openrs2XteaKey["key"]
+		}));
+	}
+
+	listen(port: number, host?: string) {
+		return new Promise<void>((done, err) => {
+			this.server.once("error", err);
+			this.server.listen(port, host, () => done());
+		});
+	}
+
+	close() {
+		this.server.close();
+	}
+
+	async handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+		//allow the web viewer to use the mirror from a different origin
+		res.setHeader("Access-Control-Allow-Origin", "*");
+		let url = new URL(req.url ?? "/", "http://localhost");
+		let parts = url.pathname.split("/").filter(q => q);
+		let notfound = () => {
+			res.writeHead(404, { "Content-Type": "text/plain" });
+			res.end("not found");
+		}
+
+		if (parts.length == 1 && parts[0] == "caches.json") {
+			let metas = await Promise.all(this.caches.map(q => q.meta));
+			res.writeHead(200, { "Content-Type": "application/json" });
+			res.end(JSON.stringify(metas));
+			return;
+		}
+		if (parts.length < 3 || parts[0] != "caches" || parts[1] != "runescape") { return notfound(); }
+		let cache = this.caches.find(q => q.id == +parts[2]);
+		if (!cache) { return notfound(); }
+
+		if (parts.length == 3) {
+			res.writeHead(200, { "Content-Type": "text/html" });
+			res.end(cacheMetaHtml(await cache.meta));
+		} else if (parts.length == 4 && parts[3] == "keys.json") {
+			//repacked containers are decrypted already, only hand out keys for the original containers
+			let keys = (await cache.provider.getRawMode() ? this.getKeys(cache.source) : []);
+			res.writeHead(200, { "Content-Type": "application/json" });
+			res.end(JSON.stringify(keys));
+		} else if (parts.length == 7 && parts[3] == "archives" && parts[5] == "groups" && parts[6].endsWith(".dat")) {
+			let major = +parts[4];
+			let minor = +parts[6].slice(0, -".dat".length);
+			if (isNaN(major) || isNaN(minor)) { return notfound(); }
+			let container = await cache.provider.getContainer(major, minor).catch(() => null);
+			if (!container) { return notfound(); }
+			res.writeHead(200, { "Content-Type": "application/octet-stream", "Content-Length": container.byteLength });
+			res.end(container);
+		} else {
+			notfound();
+		}
+	}
+}
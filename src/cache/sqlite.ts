@@ -133,6 +133,14 @@ export class GameCacheLoader extends cache.CacheFileSource {
 		return res;
 	}
 
+	//the blobs are the nxt containers (ZLB header) as they were received from the server
+	async getRawContainer(major: number, minor: number) {
+		let table = this.openTable(major == cacheMajors.index ? minor : major);
+		let row = await (major == cacheMajors.index ? table.readIndexFile() : table.readFile(minor));
+		if (!row) { throw new Error(`file ${major}.${minor} not found`); }
+		return Buffer.from(row.DATA.buffer, row.DATA.byteOffset, row.DATA.byteLength);
+	}
+
 	async getFileArchive(index: cache.CacheIndex) {
 		let arch = await this.getFile(index.major, index.minor, index.crc);
 		let res = cache.unpackSqliteBufferArchive(arch, index.subindices, index.subnames);
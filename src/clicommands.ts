@@ -1,5 +1,5 @@
 import { ReadCacheSource, filerange } from "./cliparser";
-import { command, option, flag } from "cmd-ts";
+import { command, option, flag, multioption } from "cmd-ts";
 import { cacheFileDecodeModes, cacheFileJsonModes } from "./scripts/filetypes";
 import { CLIScriptFS, ScriptFS, ScriptOutput } from "./scriptrunner";
 import { defaultTestDecodeOpts, testDecode, testDecodeHistoric } from "./scripts/testdecode";
@@ -13,7 +13,17 @@ import { fileHistory } from "./scripts/filehistory";
 import { openrs2Ids } from "./scripts/openrs2ids";
 import { extractCluecoords } from "./scripts/cluecoords";
 import { getSequenceGroups } from "./scripts/groupskeletons";
+import { checkFrameAnimations } from "./scripts/frameanimcheck";
+import { CacheExportFormat, exportCache } from "./scripts/exportcache";
+import { groupCachePrune, groupCacheStats } from "./scripts/groupcache";
+import { verifyCache } from "./scripts/verifycache";
+import { importCache } from "./scripts/importcache";
+import { DedupCacheSource } from "./cache/dedupstore";
+import { serveCache } from "./scripts/servecache";
+import { mirrorCaches } from "./scripts/mirrorcache";
 import { CacheFileSource } from "./cache";
+import { EngineCache } from "./3d/modeltothree";
+import { configReferenceLookup } from "./scripts/configrefs";
 
 
 export type CliApiContext = {
@@ -55,12 +65,13 @@ export function cliApi(ctx: CliApiContext) {
 			...filesource,
 			...filerange,
 			...saveArg("save"),
-			mode: option({ long: "mode", short: "m", description: `A json decode mode ${Object.keys(cacheFileJsonModes).join(", ")}` })
+			mode: option({ long: "mode", short: "m", description: `A json decode mode ${Object.keys(cacheFileJsonModes).join(", ")}` }),
+			roundtrip: flag({ long: "roundtrip", short: "r", description: "re-encode decoded files and report opcodes that don't result in the original bytes" })
 		},
 		handler: async (args) => {
 			let errdir = args.save;
 			let olderrfiles = await errdir.readDir(".");
-			if (olderrfiles.find(q => !q.name.match(/^(err|pass|fail)-/))) {
+			if (olderrfiles.find(q => !q.name.match(/^(err|pass|fail|roundtrip)-/))) {
 				throw new Error("file not starting with 'err' in error dir");
 			}
 			await Promise.all(olderrfiles.map(q => errdir.unlink(q.name)));
@@ -72,6 +83,7 @@ export function cliApi(ctx: CliApiContext) {
 			let opts = defaultTestDecodeOpts();
 			opts.outmode = "hextext";
 			opts.maxerrs = 500;
+			opts.roundtrip = args.roundtrip;
 			await output.run(testDecode, errdir, source, mode, args.files, opts);
 		}
 	});
@@ -131,7 +143,8 @@ export function cliApi(ctx: CliApiContext) {
 		args: {
 			...saveArg("extract"),
 			id: option({ long: "id", short: "i", type: cmdts.string }),
-			mode: option({ long: "mode", short: "m", type: cmdts.string, defaultValue: () => "bin", description: `A decode mode ${Object.keys(cacheFileDecodeModes).join(", ")}` })
+			mode: option({ long: "mode", short: "m", type: cmdts.string, defaultValue: () => "bin", description: `A decode mode ${Object.keys(cacheFileDecodeModes).join(", ")}` }),
+			store: option({ long: "store", short: "t", type: cmdts.string, defaultValue: () => "", description: "Use the builds in a deduplicated cache store instead of openrs2" })
 		},
 		async handler(args) {
 			let output = ctx.getConsole();
@@ -139,7 +152,9 @@ export function cliApi(ctx: CliApiContext) {
 
 			let id = args.id.split(".").map(q => +q);
 			if (id.length == 0 || id.some(q => isNaN(q))) { throw new Error("invalid id"); }
-			await output.run(fileHistory, args.save, args.mode as any, id, null, null);
+			let store = (args.store ? await DedupCacheSource.open(args.store) : null);
+			await output.run(fileHistory, args.save, args.mode as any, id, store, null);
+			store?.close();
 		}
 	});
 
@@ -244,9 +259,156 @@ export function cliApi(ctx: CliApiContext) {
 		}
 	});
 
+	const frameanimcheck = command({
+		name: "frameanimcheck",
+		args: {
+			...filesource,
+			...saveArg("extract"),
+			model: option({ long: "model", short: "m", type: cmdts.number, description: "Model to apply the animations to" }),
+			anims: option({ long: "anims", short: "a", type: cmdts.string, description: "Comma separated sequence ids" })
+		},
+		async handler(args) {
+			let output = ctx.getConsole();
+			let source = await args.source();
+			let seqids = args.anims.split(",").map(q => +q);
+			if (seqids.some(q => isNaN(q))) { throw new Error("invalid sequence id list"); }
+			await output.run(checkFrameAnimations, args.save, source, args.model, seqids);
+			source.close();
+		}
+	});
+
+	const refs = command({
+		name: "refs",
+		args: {
+			...filesource,
+			...saveArg("extract"),
+			type: option({ long: "type", short: "t", type: cmdts.string, defaultValue: () => "param", description: "Look up 'param' or 'enum' references" }),
+			ids: option({ long: "ids", short: "i", type: cmdts.string, description: "Comma separated param or enum ids" }),
+			scripts: flag({ long: "scripts", short: "c", description: "Also find enums used in clientscripts, this is slow" })
+		},
+		async handler(args) {
+			let output = ctx.getConsole();
+			if (args.type != "param" && args.type != "enum") { throw new Error("type should be 'param' or 'enum'"); }
+			let ids = args.ids.split(",").map(q => +q);
+			if (ids.some(q => isNaN(q))) { throw new Error("invalid id list"); }
+			let source = await args.source();
+			let engine = await EngineCache.create(source);
+			await output.run(configReferenceLookup, args.save, engine, args.type, ids, args.scripts);
+			source.close();
+		}
+	});
+
+	const exportcache = command({
+		name: "export",
+		args: {
+			...filesource,
+			...filerange,
+			...saveArg("export"),
+			format: option({ long: "format", short: "f", type: cmdts.string, defaultValue: () => "dat2", description: "Container format of the new cache, 'dat2' or 'jcache'" })
+		},
+		async handler(args) {
+			let output = ctx.getConsole();
+			if (args.format != "dat2" && args.format != "jcache") { throw new Error("unknown format"); }
+			let source = await args.source();
+			await output.run(exportCache, args.save, source, args.format as CacheExportFormat, args.files);
+			source.close();
+		}
+	});
+
+	const importcmd = command({
+		name: "import",
+		args: {
+			...filesource,
+			...filerange,
+			store: option({ long: "store", short: "t", type: cmdts.string, description: "Sqlite file of the deduplicated cache store, created if it doesn't exist" }),
+			name: option({ long: "name", short: "n", type: cmdts.string, defaultValue: () => "", description: "Name of the imported build, defaults to the source name" })
+		},
+		async handler(args) {
+			let output = ctx.getConsole();
+			let source = await args.source();
+			await output.run(importCache, args.store, source, args.name, args.files);
+			source.close();
+		}
+	});
+
+	const serve = command({
+		name: "serve",
+		args: {
+			...filesource,
+			port: option({ long: "port", short: "p", type: cmdts.number, defaultValue: () => 43594 }),
+			host: option({ long: "host", type: cmdts.string, defaultValue: () => "", description: "Address to listen on, defaults to all interfaces" })
+		},
+		async handler(args) {
+			let output = ctx.getConsole();
+			let source = await args.source();
+			await output.run(serveCache, source, args.port, args.host);
+			source.close();
+		}
+	});
+
+	const mirror = command({
+		name: "mirror",
+		args: {
+			sources: multioption({ long: "source", short: "o", type: cmdts.array(ReadCacheSource), description: "Caches to serve, can be repeated" }),
+			store: option({ long: "store", short: "t", type: cmdts.string, defaultValue: () => "", description: "Also serve every build in a deduplicated cache store" }),
+			port: option({ long: "port", short: "p", type: cmdts.number, defaultValue: () => 8080 }),
+			host: option({ long: "host", type: cmdts.string, defaultValue: () => "", description: "Address to listen on, defaults to all interfaces" })
+		},
+		async handler(args) {
+			let output = ctx.getConsole();
+			let sources: CacheFileSource[] = [];
+			for (let source of args.sources) {
+				sources.push(await source());
+			}
+			if (args.store) {
+				let store = await DedupCacheSource.open(args.store);
+				for (let build of await store.store.listBuilds()) {
+					sources.push(store.openBuild(build));
+				}
+			}
+			if (sources.length == 0) { throw new Error("no caches to serve, use --source or --store"); }
+			await output.run(mirrorCaches, sources, args.port, args.host);
+		}
+	});
+
+	const verify = command({
+		name: "verify",
+		args: {
+			...filesource,
+			...filerange,
+			...saveArg("verify")
+		},
+		async handler(args) {
+			let output = ctx.getConsole();
+			let source = await args.source();
+			await output.run(verifyCache, args.save, source, args.files);
+			source.close();
+		}
+	});
+
+	const cachestats = command({
+		name: "cache-stats",
+		args: {},
+		async handler(args) {
+			let output = ctx.getConsole();
+			await output.run(groupCacheStats);
+		}
+	});
+
+	const cacheprune = command({
+		name: "cache-prune",
+		args: {
+			maxsize: option({ long: "maxsize", short: "m", type: cmdts.number, description: "Size in mb to shrink the persistent group cache to, 0 clears it" })
+		},
+		async handler(args) {
+			let output = ctx.getConsole();
+			await output.run(groupCachePrune, args.maxsize);
+		}
+	});
+
 	let subcommands = cmdts.subcommands({
 		name: "",
-		cmds: { extract, indexoverview, testdecode, diff, quickchat, scrapeavatars, edit, historicdecode, openrs2ids, filehist, cluecoords, sequencegroups }
+		cmds: { extract, indexoverview, testdecode, diff, quickchat, scrapeavatars, edit, historicdecode, openrs2ids, filehist, cluecoords, sequencegroups, frameanimcheck, refs, export: exportcache, import: importcmd, serve, mirror, verify, "cache-stats": cachestats, "cache-prune": cacheprune }
 	});
 
 	return {
@@ -985,7 +985,7 @@ export function setRawOpcodeStackDiff(consts: StackConstants | null, calli: Clie
             if (column) {
                 node.knownStackDiff = StackInOut.fromExact(
                     [subtypes.dbrow, subtypes.int, subtypes.int],
-                    (subfield != 0 ? [column.columns[subfield - 1].type] : column.columns.map(q => q.type))
+                    (subfield != 0 ? [column.types[subfield - 1]] : column.types)
                 )
             }
         }
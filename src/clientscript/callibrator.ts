@@ -1,6 +1,6 @@
 import { CacheFileSource } from "../cache";
 import { cacheConfigPages, cacheMajors } from "../constants";
-import { FileParser, parse } from "../opdecoder";
+import { parse } from "../opdecoder";
 import { posmod, trickleTasksTwoStep } from "../utils";
 import { DecodeState, EncodeState } from "../opcode_reader";
 import { clientscriptdata } from "../../generated/clientscriptdata";
@@ -27,19 +27,6 @@ export type StackDiffEquation = {
     unknowns: Set<OpcodeInfo>
 }
 
-//TODO move to file
-let varInfoParser = new FileParser<{ type: number }>({
-    "0x03": { "name": "type", "read": "ubyte" },
-    "0x04": { "name": "0x04", "read": "ubyte" },
-    "0x07": { "name": "0x07", "read": true },
-    "0x6e": { "name": "0x6e", "read": "ushort" },
-});
-
-var varbitInfoParser = new FileParser<{ varid: number, bits: [number, number] }>({
-    "0x01": { "name": "varid", "read": "utribyte" },//[8bit domain][16bit id] read as tribyte since thats also how we read pushvar/popvar imm
-    "0x02": { "name": "bits", "read": ["tuple", "ubyte", "ubyte"] }
-});
-
 export class OpcodeInfo {
     scrambledid: number;
     id: number;
@@ -265,8 +252,8 @@ export class ClientscriptObfuscation {
     opidcounter = 10000;
     source: CacheFileSource;
     dbtables = new Map<number, dbtables>();
-    varmeta: Map<number, { name: string, maxid: number, vars: Map<number, typeof varInfoParser extends FileParser<infer T> ? T : never> }> = new Map();
-    varbitmeta: Map<number, typeof varbitInfoParser extends FileParser<infer T> ? T : never> = new Map();
+    varmeta: Map<number, { name: string, maxid: number, vars: Map<number, { type: number }> }> = new Map();
+    varbitmeta: Map<number, { varid: number, bits: [number, number] }> = new Map();
     parammeta = new Map<number, params>();
     scriptargs = new Map<number, {
         scriptname: string,
@@ -370,7 +357,7 @@ export class ClientscriptObfuscation {
         let loadVars = async (subid: number) => {
             let archieve = await this.source.getArchiveById(cacheMajors.config, subid);
             let last = archieve.at(-1)?.fileid ?? 0;
-            return { last, vars: new Map(archieve.map(q => [q.fileid, varInfoParser.read(q.buffer, this.source)])) };
+            return { last, vars: new Map(archieve.map(q => [q.fileid, parse.vars.read(q.buffer, this.source) as { type: number }])) };
         }
 
         let dbtables = await this.source.getArchiveById(cacheMajors.config, cacheConfigPages.dbtables);
@@ -384,7 +371,12 @@ export class ClientscriptObfuscation {
             })));
 
             let varbitarchieve = await this.source.getArchiveById(cacheMajors.config, cacheConfigPages.varbits);
-            this.varbitmeta = new Map(varbitarchieve.map(q => [q.fileid, varbitInfoParser.read(q.buffer, this.source)]));
+            this.varbitmeta.clear();
+            for (let file of varbitarchieve) {
+                let varbit = parse.varbits.read(file.buffer, this.source);
+                if (varbit.varid == null || !varbit.bits) { continue; }
+                this.varbitmeta.set(file.fileid, { varid: varbit.varid, bits: varbit.bits });
+            }
 
             this.parammeta.clear();
             let paramindex = await this.source.getArchiveById(cacheMajors.config, cacheConfigPages.params);
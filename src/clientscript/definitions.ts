@@ -338,6 +338,17 @@ export function longBigIntToJson(long: bigint): [number, number] {
     return [upper, lower];
 }
 
+export function subtypeName(subt: number) {
+    return Object.entries(subtypes).find(q => q[1] == subt)?.[0] ?? `type_${subt}`;
+}
+
+//enums store their key and value types in the type2 opcodes, the type1 opcodes use the old char based type codes
+export function enumTypeName(type1: number | null | undefined, type2: number | null | undefined) {
+    if (type2 != null) { return subtypeName(type2); }
+    if (type1 != null) { return `char '${String.fromCharCode(type1)}'`; }
+    return undefined;
+}
+
 export function subtypeToTs(subt: number) {
     let resentry = Object.entries(subtypes).find(q => q[1] == subt);
     if (!resentry) { return `type_${subt}`; }
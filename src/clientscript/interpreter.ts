@@ -273,7 +273,7 @@ function getParamOp(inter: ClientScriptInterpreter, op: ClientScriptOp) {
         if (outprim == "string") { inter.pushstring(""); }
     }
 }
-async function loadEnum(source: CacheFileSource, id: number) {
+export async function loadEnum(source: CacheFileSource, id: number) {
     return parse.enums.read(await source.getFileById(cacheMajors.enums, id), source);
 }
 
@@ -340,7 +340,7 @@ implementedops.set(namedClientScriptOps.dbrow_getfield, inter => {
     let subfield = tablefield & 0xf;
     let column = inter.calli.dbtables.get(dbtable)?.unk01?.columndata.find(q => q.id == columnid);
     if (!column) { throw new Error(`couldn't find dbtable ${dbtable}.${columnid}`); }
-    let types = (subfield != 0 ? [column.columns[subfield - 1].type] : column.columns.map(q => q.type));
+    let types = (subfield != 0 ? [column.types[subfield - 1]] : column.types);
     inter.pushStackdiff(new StackList(types.map(typeToPrimitive)).toStackDiff());
 });
 
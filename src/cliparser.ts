@@ -2,37 +2,61 @@ import * as cmdts from "cmd-ts";
 import { ArgParser } from "cmd-ts/dist/cjs/argparser";
 
 import { CacheFileSource, CallbackCacheLoader } from "./cache";
-import { CacheDownloader } from "./cache/downloader";
+import { CacheDownloader, customServerConfig } from "./cache/downloader";
 import { GameCacheLoader } from "./cache/sqlite";
 import { RawFileLoader } from "./cache/rawfiles";
 import { Openrs2CacheSource } from "./cache/openrs2loader";
 import type { MapRect } from "./3d/mapsquare";
 import { FileRange, stringToFileRange, stringToMapArea } from "./utils";
 import { selectFsCache } from "./cache/autocache";
+import { Dat2CacheLoader } from "./cache/dat2cache";
+import { DatCacheLoader } from "./cache/datcache";
+import { nodeFileOpener } from "./cache/diskstore";
+import { DedupCacheSource } from "./cache/dedupstore";
 import { CLIScriptFS } from "./scriptrunner";
 
 export type Rect = { x: number, y: number, width: number, height: number };
 
-export type CacheOpts = { writable?: boolean } | undefined;
+export type CacheOpts = { writable?: boolean, buildnr?: number } | undefined;
 
 function cacheSourceFromString(str: string) {
 	let [mode, ...argparts] = str.split(":",);
 	let arg = argparts.join(":");
+	//flat file caches don't know their own build number, allow it to be appended as dir:buildnr
+	let buildmatch = arg.match(/^(.*):(\d+)$/);
+	let buildnr = (buildmatch ? +buildmatch[2] : undefined);
+	let dirarg = (buildmatch ? buildmatch[1] : arg);
 	return async (opts: CacheOpts) => {
 		switch (mode) {
 			case "live":
+				//live:host:port connects to a different js5 server
+				if (arg) {
+					let [host, port] = arg.split(":");
+					return new CacheDownloader(customServerConfig(host, +(port ?? 43594)));
+				}
 				return new CacheDownloader();
 			case "auto":
-				let fs = new CLIScriptFS(arg);
-				return selectFsCache(fs, opts);
+				let fs = new CLIScriptFS(dirarg);
+				return selectFsCache(fs, { buildnr, ...opts });
 			case "nxt":
 			case "cache":
 				return new GameCacheLoader(arg, false);
 			case "cache-write":
 				return new GameCacheLoader(arg, true);
+			case "dat":
+				return DatCacheLoader.create(nodeFileOpener(dirarg, false), dirarg, buildnr);
+			case "dat2":
+				return Dat2CacheLoader.create(nodeFileOpener(dirarg, !!opts?.writable), dirarg, !!opts?.writable, buildnr);
+			case "dat2-write":
+				return Dat2CacheLoader.create(nodeFileOpener(dirarg, true), dirarg, true, buildnr);
+			case "store":
+				return DedupCacheSource.open(dirarg, buildnr);
 			case "openrs":
-			case "openrs2":
-				return Openrs2CacheSource.fromId(+arg);
+			case "openrs2": {
+				//openrs2:id:endpoint uses a mirror instead of archive.openrs2.org
+				let [id, ...endpoint] = arg.split(":");
+				return Openrs2CacheSource.fromId(+id, endpoint.join(":") || undefined);
+			}
 			case "extracted":
 				return new RawFileLoader(arg, 0);
 			case "global":
@@ -50,7 +74,7 @@ function cacheSourceFromString(str: string) {
 export const ReadCacheSource: cmdts.Type<string, (opts?: { writable?: boolean }) => Promise<CacheFileSource>> = {
 	async from(str) { return cacheSourceFromString(str); },
 	defaultValue: () => cacheSourceFromString("cache"),
-	description: "Where to get game files from, can be 'live', 'cache[:rscachedir]' or openrs2[:ors2cacheid]"
+	description: "Where to get game files from, can be 'live[:host:port]', 'cache[:rscachedir]', 'dat:datcachedir[:buildnr]', 'dat2:dat2cachedir[:buildnr]', 'auto:cachedir[:buildnr]', 'store:storefile[:buildnr]' or openrs2[:ors2cacheid[:endpoint]]"
 };
 
 const FileRange: cmdts.Type<string, FileRange[]> = {
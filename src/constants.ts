@@ -63,13 +63,18 @@ export const cacheConfigPages = {
 	mapunderlays: 1,
 	identityKit: 3,
 	mapoverlays: 4,
+	inventories: 5,
 	params: 11,
 	environments: 29,
+	lights: 31,
 	animgroups: 32,
+	cursors: 33,
 	mapscenes: 34,
 	maplabels: 36,
 	dbtables: 40,
 	dbrows: 41,
+	hitmarks: 46,
+	headbars: 47,
 
 	varplayer: 60,
 	varnpc: 61,
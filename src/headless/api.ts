@@ -1,5 +1,5 @@
 
-import { exportThreeJsGltf, ThreeJsRenderer } from "../viewer/threejsrender";
+import { ExportedFile, exportThreeJsGltf, exportThreeJsObj, exportThreeJsPly, exportThreeJsStl, ThreeJsRenderer } from "../viewer/threejsrender";
 import { CacheFileSource } from "../cache";
 import { EngineCache, ThreejsSceneCache } from "../3d/modeltothree";
 import { itemToModel, npcToModel, RSModel, SimpleModelInfo } from "../3d/modelnodes";
@@ -16,6 +16,8 @@ export { GameCacheLoader } from "../cache/sqlite";
 export { CallbackCacheLoader } from "../cache";
 export * as map from "../map/index";
 export { ScriptOutput, CLIScriptOutput } from "../scriptrunner";
+export { exportThreeJsGltf, exportThreeJsObj, exportThreeJsPly, exportThreeJsStl } from "../viewer/threejsrender";
+export type { ExportedFile } from "../viewer/threejsrender";
 //export buffer since we're polyfilling it in browsers
 export const BufferPoly = Buffer;
 
@@ -158,3 +160,23 @@ export async function renderAppearance(scene: ThreejsSceneCache, mode: "player"
 
 	return { imgfile, modelfile };
 }
+
+//exports a model without needing a renderer, obj exports result in multiple files (obj, mtl and textures)
+export async function exportModelFiles(scene: ThreejsSceneCache, meshdata: SimpleModelInfo<any, any>, format: "gltf" | "stl" | "obj" | "ply", basename = "model") {
+	let model = new RSModel(scene, meshdata.models, meshdata.name);
+	await model.model;
+	let files: ExportedFile[];
+	if (format == "gltf") {
+		files = [{ name: `${basename}.glb`, data: await exportThreeJsGltf(model.rootnode) }];
+	} else if (format == "stl") {
+		files = [{ name: `${basename}.stl`, data: await exportThreeJsStl(model.rootnode) }];
+	} else if (format == "obj") {
+		files = await exportThreeJsObj(model.rootnode, basename);
+	} else if (format == "ply") {
+		files = [{ name: `${basename}.ply`, data: exportThreeJsPly(model.rootnode) }];
+	} else {
+		throw new Error("unknown format " + format);
+	}
+	model.cleanup();
+	return files;
+}
@@ -1,6 +1,7 @@
 //structure similar to ImageData, but without prototype chain or clamped constraint, easy to consume with sharp
 
 import type { Texture } from "three";
+import { crc32 } from "./libs/crc32util";
 
 export type CanvasImage = Exclude<CanvasImageSource, SVGImageElement | VideoFrame>;
 
@@ -11,7 +12,8 @@ export function makeImageData(data: Uint8ClampedArray | Uint8Array | null, width
 	if (data instanceof Uint8Array) {
 		data = new Uint8ClampedArray(data.buffer, data.byteOffset, data.length);
 	}
-	if (typeof ImageData != "undefined") {
+	//ImageData doesn't allow empty images, those are used as placeholder for empty sprite frames
+	if (typeof ImageData != "undefined" && width != 0 && height != 0) {
 		return new ImageData(data, width, height);
 	} else {
 		return { data, width, height, colorSpace: "srgb" };
@@ -210,7 +212,67 @@ export function sliceImage(img: ImageData, bounds: { x: number, y: number, width
 	for (let y = 0; y < bounds.height; y++) {
 		newdata.set(img.data.slice(oldoffset + y * oldstride, oldoffset + y * oldstride + newstride), newstride * y);
 	}
-	return new ImageData(newdata, bounds.width, bounds.height);
+	return makeImageData(newdata, bounds.width, bounds.height);
+}
+
+//neither canvas nor sharp can encode animations from raw pixels, so write the apng chunks ourselves
+export function pixelsToApng(frames: ImageData[], delayms: number) {
+	const zlib = require("zlib") as typeof import("zlib");
+	if (frames.length == 0) { throw new Error("no frames"); }
+	let width = frames[0].width;
+	let height = frames[0].height;
+	if (frames.some(q => q.width != width || q.height != height)) { throw new Error("all apng frames must be the same size"); }
+
+	let chunks: Buffer[] = [Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])];
+	let writechunk = (type: string, data: Buffer) => {
+		let chunk = Buffer.alloc(data.byteLength + 12);
+		chunk.writeUInt32BE(data.byteLength, 0);
+		chunk.write(type, 4, "ascii");
+		data.copy(chunk, 8);
+		chunk.writeUInt32BE(crc32(chunk, 0, 4, 8 + data.byteLength), 8 + data.byteLength);
+		chunks.push(chunk);
+	}
+
+	let header = Buffer.alloc(13);
+	header.writeUInt32BE(width, 0);
+	header.writeUInt32BE(height, 4);
+	header.writeUInt8(8, 8);//bit depth
+	header.writeUInt8(6, 9);//rgba
+	writechunk("IHDR", header);
+	let animctl = Buffer.alloc(8);
+	animctl.writeUInt32BE(frames.length, 0);
+	animctl.writeUInt32BE(0, 4);//loop forever
+	writechunk("acTL", animctl);
+
+	let seqnr = 0;
+	for (let [index, frame] of frames.entries()) {
+		let framectl = Buffer.alloc(26);
+		framectl.writeUInt32BE(seqnr++, 0);
+		framectl.writeUInt32BE(width, 4);
+		framectl.writeUInt32BE(height, 8);
+		framectl.writeUInt16BE(delayms, 20);
+		framectl.writeUInt16BE(1000, 22);
+		framectl.writeUInt8(1, 24);//dispose to transparent
+		writechunk("fcTL", framectl);
+
+		//each scanline is prefixed with filter type 0
+		let stride = width * 4;
+		let raw = Buffer.alloc((stride + 1) * height);
+		for (let y = 0; y < height; y++) {
+			raw.set(frame.data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+		}
+		let compressed = zlib.deflateSync(raw);
+		if (index == 0) {
+			writechunk("IDAT", compressed);
+		} else {
+			let framedata = Buffer.alloc(compressed.byteLength + 4);
+			framedata.writeUInt32BE(seqnr++, 0);
+			compressed.copy(framedata, 4);
+			writechunk("fdAT", framedata);
+		}
+	}
+	writechunk("IEND", Buffer.alloc(0));
+	return Buffer.concat(chunks);
 }
 
 export function findImageBounds(img: ImageData) {
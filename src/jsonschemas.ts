@@ -118,6 +118,15 @@ const scenarioActionSchema: JSONSchema6 = {
             },
             required: ["type", "target", "animid", "anims"]
         },
+        {
+            properties: {
+                type: { enum: ["animlayer", "animcrossfade", "animstop"] },
+                target: int,
+                animid: int,
+                fade: number
+            },
+            required: ["type", "target", "animid", "fade"]
+        },
         {
             properties: {
                 type: { const: "delay" },
@@ -198,7 +207,7 @@ export const maprenderConfigSchema: JSONSchema6 = {
                     required: ["mode"]
                 }, {
                     properties: {
-                        mode: { enum: ["height", "collision", "locs", "maplabels", "rendermeta"] }
+                        mode: { enum: ["height", "collision", "locs", "maplabels", "rendermeta", "worldmap"] }
                     },
                     required: ["mode"]
                 }]
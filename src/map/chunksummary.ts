@@ -9,6 +9,7 @@ import { CacheFileSource } from "../cache";
 import { RenderedMapMeta } from ".";
 import { crc32addInt } from "../libs/crc32util";
 import type { RSMapChunk } from "../3d/modelnodes";
+import { WorldmapRenderData } from "./worldmap";
 
 export function getLocImageHash(grid: TileGrid, info: WorldLocation) {
 	let loc = info.location;
@@ -749,6 +750,9 @@ export class RenderDepsTracker {
 	cachedMetas: RenderDepsEntry[] = [];
 	readonly cacheSize = 15;
 
+	//only loaded when the render has a worldmap layer
+	worldmap: WorldmapRenderData | null = null;
+
 	constructor(source: CacheFileSource, config: MapRender, deps: DependencyGraph, rendermeta: RenderedMapMeta) {
 		this.config = config;
 		this.deps = deps;
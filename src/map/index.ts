@@ -20,6 +20,7 @@ import { KnownMapFile, MapRender, SymlinkCommand, VersionFilter } from "./backen
 import { ProgressUI, TileLoadState } from "./progressui";
 import { MipScheduler } from "./mipper";
 import { crc32addInt } from "../libs/crc32util";
+import { loadWorldmapRenderData, svgWorldmapAreas } from "./worldmap";
 
 type RenderedMapVersionMeta = {
 	buildnr: number,
@@ -85,6 +86,8 @@ export type LayerConfig = {
 	mode: "maplabels"
 } | {
 	mode: "rendermeta"
+} | {
+	mode: "worldmap"
 });
 
 async function getVersionsFile(config: MapRender, includeCacheVersion: CacheFileSource | null = null) {
@@ -458,6 +461,9 @@ export async function downloadMap(output: ScriptOutput, getRenderer: () => MapRe
 
 	let mipper = new MipScheduler(config, progress);
 	let depstracker = new RenderDepsTracker(engine, config, deps, versionsFile);
+	if (config.config.layers.some(q => q.mode == "worldmap")) {
+		depstracker.worldmap = await loadWorldmapRenderData(engine);
+	}
 
 	let maprender: MapRenderer | null = null;
 	let activerender = Promise.resolve();
@@ -1028,6 +1034,32 @@ const rendermodeMaplabels: RenderMode<"height"> = function (engine, config, cnf,
 	}] satisfies RenderTask[];
 }
 
+const rendermodeWorldmap: RenderMode<"worldmap"> = function (engine, config, cnf, deps, baseoutput, maprect) {
+	let zooms = getLayerZooms(config.config, cnf);
+	let { loadedchunksrect, worldrect } = chunkrectToOffetWorldRect(engine, maprect);
+	let thiscnf = cnf;
+	let worldmap = deps.depstracker.worldmap;
+	if (!worldmap) { throw new Error("world map data wasn't loaded for this render"); }
+	let areas = worldmap.areas;
+	let filename = config.makeFileName(thiscnf.name, zooms.base, baseoutput.x, baseoutput.y, "svg");
+	//only depends on the world map archive, the chunks are loaded but not used
+	let depcrc = worldmap.hash;
+	return [{
+		layer: thiscnf,
+		name: filename,
+		hash: depcrc,
+		datarect: loadedchunksrect,
+		mippable: { outputx: baseoutput.x, outputy: baseoutput.y, zoom: zooms.base, hash: depcrc },
+		async run2d() {
+			//the per-area base images and label positions aren't decoded, so only the area layout is drawn
+			let svg = svgWorldmapAreas(areas, worldrect, thiscnf.level, thiscnf.pxpersquare);
+			return {
+				file: () => Promise.resolve(Buffer.from(svg, "utf8"))
+			};
+		}
+	}] satisfies RenderTask[];
+}
+
 const rendermodeRenderMeta: RenderMode<"rendermeta"> = function (engine, config, cnf, deps, baseoutput, singlerect) {
 	let thiscnf = cnf;
 	let filename = `${thiscnf.name}/${singlerect.x}-${singlerect.z}.${cnf.usegzip ? "json.gz" : "json"}`;
@@ -1056,7 +1088,8 @@ const rendermodes: Record<LayerConfig["mode"], RenderMode<any>> = {
 	height: rendermodeHeight,
 	locs: rendermodeLocs,
 	maplabels: rendermodeMaplabels,
-	rendermeta: rendermodeRenderMeta
+	rendermeta: rendermodeRenderMeta,
+	worldmap: rendermodeWorldmap
 }
 
 //TODO test map generation and move it over to mapimagecamera2
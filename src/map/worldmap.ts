@@ -0,0 +1,69 @@
+import { CacheFileSource } from "../cache";
+import { cacheMajors } from "../constants";
+import { parse } from "../opdecoder";
+import { MapRect } from "../3d/mapsquare";
+import { crc32addInt } from "../libs/crc32util";
+import { mapzones } from "../../generated/mapzones";
+
+//area definitions of the in-game world map, the fileid is the id used by the world map enums
+export type WorldmapArea = mapzones & { id: number };
+
+//loaded once per map render, the hash covers every group in the world map archive
+export type WorldmapRenderData = { areas: WorldmapArea[], hash: number };
+
+/**
+ * Loads all area definitions from the world map details archive
+ */
+export async function loadWorldmapAreas(source: CacheFileSource) {
+	let files = await source.getArchiveById(cacheMajors.worldmap, 0);
+	return files.map<WorldmapArea>(q => ({ id: q.fileid, ...parse.mapZones.read(q.buffer, source) }));
+}
+
+export async function loadWorldmapRenderData(source: CacheFileSource): Promise<WorldmapRenderData> {
+	let areas = await loadWorldmapAreas(source);
+	let hash = 0;
+	for (let index of await source.getCacheIndex(cacheMajors.worldmap)) {
+		if (!index) { continue; }
+		hash = crc32addInt(index.crc, hash);
+	}
+	return { areas, hash };
+}
+
+//the zones are inclusive of their end coord
+function boundsToRect(bounds: WorldmapArea["bounds"][number]["src"]): MapRect {
+	return { x: bounds.xstart, z: bounds.zstart, xsize: bounds.xend - bounds.xstart + 1, zsize: bounds.zend - bounds.zstart + 1 };
+}
+
+function escapeXml(text: string) {
+	return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/**
+ * Draws the parts of the game world that are shown in each world map area, only uses the area
+ * definitions and uses the same coordinate system as svgfloor so it can be used as overlay
+ */
+export function svgWorldmapAreas(areas: WorldmapArea[], rect: MapRect, maplevel: number, pxpertile: number) {
+	let r = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${rect.xsize} ${rect.zsize}" width="${rect.xsize * pxpertile}" height="${rect.zsize * pxpertile}">\n`;
+	r += `<g transform="scale(1,-1) translate(0,-${rect.zsize})">\n`;
+	for (let area of areas) {
+		//areas without a name are internal and not selectable in-game
+		if (!area.name) { continue; }
+		//deterministic color per area
+		let hue = (area.id * 137) % 360;
+		for (let bounds of area.bounds) {
+			if (bounds.plane != maplevel) { continue; }
+			let src = boundsToRect(bounds.src);
+			if (src.x >= rect.x + rect.xsize || src.x + src.xsize <= rect.x || src.z >= rect.z + rect.zsize || src.z + src.zsize <= rect.z) { continue; }
+			let x = src.x - rect.x;
+			let z = src.z - rect.z;
+			r += `<rect x="${x}" y="${z}" width="${src.xsize}" height="${src.zsize}" fill="hsla(${hue},70%,50%,0.2)" stroke="hsl(${hue},70%,40%)" stroke-width="0.5"/>\n`;
+			//text is flipped back since the whole group is mirrored
+			let moved = bounds.dst.xstart != bounds.src.xstart || bounds.dst.zstart != bounds.src.zstart;
+			let label = `${area.name} (${area.id})${moved ? ` -> ${bounds.dst.xstart},${bounds.dst.zstart}` : ""}`;
+			r += `<text x="${x + 1}" y="${-(z + src.zsize - 3)}" transform="scale(1,-1)" font-size="3" fill="hsl(${hue},70%,25%)">${escapeXml(label)}</text>\n`;
+		}
+	}
+	r += `</g>\n`;
+	r += `</svg>`;
+	return r;
+}
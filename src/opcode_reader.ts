@@ -1,6 +1,7 @@
 import { lastLegacyBuildnr } from "./constants";
 import type * as jsonschema from "json-schema";
 import type { ClientscriptObfuscation } from "./clientscript/callibrator";
+import { typeToPrimitive } from "./clientscript/definitions";
 
 export type TypeDef = { [name: string]: unknown };
 
@@ -769,14 +770,20 @@ function arrayNullTerminatedParser(args: unknown[], parent: ChunkParentCallback,
 		},
 		write(state, value) {
 			if (!Array.isArray(value)) { throw new Error("array expected"); }
-			//TODO probably very wrong
+			let ctx = { $opcode: 0 };
 			state.stack.push(value);
-			state.hiddenstack.push({});
+			state.hiddenstack.push(ctx);
 			for (let prop of value) {
-				lengthtype.write(state, 1);
+				//rebuild the header from the props that reference it, any nonzero header works otherwise
+				let header = (opcoderefs.length == 0 ? 1 : 0);
+				for (let ref of opcoderefs) {
+					header = ref.resolve(prop, header);
+				}
+				ctx.$opcode = header;
+				lengthtype.write(state, header);
 				subtype.write(state, prop);
 			}
-			lengthtype.write(state, 0);
+			lengthtype.write(state, endvalue.readConst?.(state) ?? 0);
 			state.stack.pop();
 			state.hiddenstack.pop();
 		},
@@ -790,12 +797,15 @@ function arrayNullTerminatedParser(args: unknown[], parent: ChunkParentCallback,
 			};
 		}
 	};
+	let opcoderefs: ResolvedReference[] = [];
 	const resolveReference: ChunkParentCallback = function (name, child) {
 		if (name == "$opcode") {
-			return {
+			let ref: ResolvedReference = {
 				stackdepth: child.stackdepth + 1,
-				resolve(v, old) { throw new Error("not implemented") }
-			}
+				resolve(v, old) { return child.resolve(v, old); }
+			};
+			opcoderefs.push(ref);
+			return ref;
 		}
 		return buildReference(name, parent, {
 			stackdepth: child.stackdepth + 1,
@@ -1167,6 +1177,10 @@ const hardcodes: Record<string, (args: unknown[], parent: ChunkParentCallback, t
 			read(state) {
 				return getClientVersion(state.args);
 			},
+			//the build is known up front, this lets match chunks switch on it in write mode
+			readConst(state) {
+				return getClientVersion(state.args);
+			},
 			write(state, v) {/*noop*/ },
 			getTypescriptType(indent) { return "number"; },
 			getJsonSchema() { return { type: "number" } }
@@ -1368,6 +1382,57 @@ const hardcodes: Record<string, (args: unknown[], parent: ChunkParentCallback, t
 			}
 		}
 	},
+	//interleaved db column values, one tuple per field with a value for each of the column types
+	//the field count is a smart ushort, this reads the same as a ubyte for counts below 128
+	dbfields: function (args, parent, typedef) {
+		if (typeof args[0] != "string") { throw new Error("dbfields expects the name of the column types prop"); }
+		let typesref = refgetter(parent, args[0], (v, old) => old);
+		let getTypes = (state: SharedEncoderState) => {
+			let types = typesref.read(state);
+			if (!Array.isArray(types)) { throw new Error("db column types array expected"); }
+			return types as number[];
+		}
+		return {
+			read(state) {
+				let types = getTypes(state).map(typeToPrimitive);
+				let fieldcount = parserPrimitives.varushort.read(state);
+				let fields: (string | number | [number, number])[][] = [];
+				for (let i = 0; i < fieldcount; i++) {
+					fields.push(types.map(type => {
+						if (type == "string") { return parserPrimitives.string.read(state); }
+						if (type == "long") { return [parserPrimitives.int.read(state), parserPrimitives.int.read(state)] as [number, number]; }
+						return parserPrimitives.int.read(state);
+					}));
+				}
+				return fields;
+			},
+			write(state, v) {
+				if (!Array.isArray(v)) { throw new Error("array expected"); }
+				let types = getTypes(state).map(typeToPrimitive);
+				parserPrimitives.varushort.write(state, v.length);
+				for (let field of v) {
+					if (!Array.isArray(field) || field.length != types.length) { throw new Error("db field should have one value per column type"); }
+					types.forEach((type, i) => {
+						if (type == "string") { parserPrimitives.string.write(state, field[i]); }
+						else if (type == "long") { parserPrimitives.int.write(state, field[i][0]); parserPrimitives.int.write(state, field[i][1]); }
+						else { parserPrimitives.int.write(state, field[i]); }
+					});
+				}
+			},
+			getTypescriptType(indent) {
+				return "(string|number|[number,number])[][]";
+			},
+			getJsonSchema() {
+				return {
+					type: "array",
+					items: {
+						type: "array",
+						items: { oneOf: [{ type: "string" }, { type: "integer" }, { type: "array", items: { type: "integer" }, minItems: 2, maxItems: 2 }] }
+					}
+				}
+			}
+		}
+	},
 	scriptopt: function (args, parent, typedef) {
 		return {
 			read(state) {
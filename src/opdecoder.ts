@@ -2,6 +2,7 @@
 import * as opcode_reader from "./opcode_reader";
 import commentJson from "comment-json";
 import type { CacheFileSource } from "cache";
+import { latestBuildNumber } from "./constants";
 
 const typedef = commentJson.parse(require("./opcodes/typedef.jsonc")) as any;
 
@@ -65,6 +66,7 @@ export class FileParser<T> {
 		return this.readInternal(state) as T;
 	}
 
+	//pass source.getDecodeArgs() when writing a file for a specific cache, defaults to the latest build otherwise
 	write(obj: T, args?: Record<string, any>) {
 		let state: opcode_reader.EncodeState = {
 			isWrite: true,
@@ -74,7 +76,7 @@ export class FileParser<T> {
 			scan: 0,
 			endoffset: scratchbuf.byteLength,
 			args: {
-				clientVersion: 1000,//TODO
+				clientVersion: latestBuildNumber,
 				...args
 			}
 		};
@@ -146,6 +148,13 @@ function allParsers() {
 		clientscriptdata: FileParser.fromJson<import("../generated/clientscriptdata").clientscriptdata>(require("./opcodes/clientscriptdata.jsonc")),
 		interfaces: FileParser.fromJson<import("../generated/interfaces").interfaces>(require("./opcodes/interfaces.jsonc")),
 		dbtables: FileParser.fromJson<import("../generated/dbtables").dbtables>(require("./opcodes/dbtables.jsonc")),
-		dbrows: FileParser.fromJson<import("../generated/dbrows").dbrows>(require("./opcodes/dbrows.jsonc"))
+		dbrows: FileParser.fromJson<import("../generated/dbrows").dbrows>(require("./opcodes/dbrows.jsonc")),
+		vars: FileParser.fromJson<import("../generated/vars").vars>(require("./opcodes/vars.jsonc")),
+		varbits: FileParser.fromJson<import("../generated/varbits").varbits>(require("./opcodes/varbits.jsonc")),
+		inventories: FileParser.fromJson<import("../generated/inventories").inventories>(require("./opcodes/inventories.jsonc")),
+		cursors: FileParser.fromJson<import("../generated/cursors").cursors>(require("./opcodes/cursors.jsonc")),
+		hitmarks: FileParser.fromJson<import("../generated/hitmarks").hitmarks>(require("./opcodes/hitmarks.jsonc")),
+		headbars: FileParser.fromJson<import("../generated/headbars").headbars>(require("./opcodes/headbars.jsonc")),
+		lights: FileParser.fromJson<import("../generated/lights").lights>(require("./opcodes/lights.jsonc"))
 	}
 }
\ No newline at end of file
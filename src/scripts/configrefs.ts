@@ -0,0 +1,183 @@
+import { cacheConfigPages, cacheMajors } from "../constants";
+import { parse } from "../opdecoder";
+import { EngineCache, iterateConfigFiles } from "../3d/modeltothree";
+import { namedClientScriptOps, subtypes, ClientScriptOp, subtypeName, enumTypeName } from "../clientscript/definitions";
+import { ClientscriptObfuscation } from "../clientscript/callibrator";
+import { prepareClientScript } from "../clientscript";
+import { loadEnum } from "../clientscript/interpreter";
+import { params } from "../../generated/params";
+import { ScriptFS, ScriptOutput } from "../scriptrunner";
+import prettyJson from "json-stringify-pretty-compact";
+
+export type ConfigRefType = "item" | "npc" | "loc" | "struct" | "enum" | "dbrow" | "clientscript";
+export type ConfigRef = { type: ConfigRefType, id: number };
+export type ParamReference = ConfigRef & { value: number | string };
+//via describes where the enum id was found, eg the param or column it was stored in
+export type EnumReference = ConfigRef & { via: string };
+
+export type ConfigReferenceIndex = {
+	params: Map<number, params>,
+	paramRefs: Map<number, ParamReference[]>,
+	enumRefs: Map<number, EnumReference[]>,
+	includesScripts: boolean
+}
+
+//the config types that have a params list
+const paramHolders: [ConfigRefType, number, (buf: Buffer, cache: EngineCache) => { extra?: { prop: number, intvalue: number | null, stringvalue: string | null }[] | null }][] = [
+	["item", cacheMajors.items, (buf, cache) => parse.item.read(buf, cache)],
+	["npc", cacheMajors.npcs, (buf, cache) => parse.npc.read(buf, cache)],
+	["loc", cacheMajors.objects, (buf, cache) => parse.object.read(buf, cache)],
+	["struct", cacheMajors.structs, (buf, cache) => parse.structs.read(buf, cache)],
+];
+
+function pushMapList<T>(map: Map<number, T[]>, key: number, value: T) {
+	let list = map.get(key);
+	if (!list) {
+		list = [];
+		map.set(key, list);
+	}
+	list.push(value);
+}
+
+function intConstant(calli: ClientscriptObfuscation, op: ClientScriptOp) {
+	let id = calli.getNamedOp(op.opcode).id;
+	if (id == namedClientScriptOps.pushconst && op.imm == 0 && typeof op.imm_obj == "number") { return op.imm_obj; }
+	if (id == namedClientScriptOps.pushint) { return op.imm; }
+	return null;
+}
+
+/**
+ * Finds enum ids that are passed as constant to enum_getvalue, the arguments are keytype,valuetype,enum,key
+ * where the key can be any expression. Looks for the nearest three constants before the key
+ */
+function scriptEnumIds(calli: ClientscriptObfuscation, ops: ClientScriptOp[]) {
+	let res = new Set<number>();
+	for (let i = 0; i < ops.length; i++) {
+		if (calli.getNamedOp(ops[i].opcode).id != namedClientScriptOps.enum_getvalue) { continue; }
+		//the key takes at least one op
+		for (let j = i - 2; j >= 2 && j >= i - 20; j--) {
+			let enumid = intConstant(calli, ops[j]);
+			let valuetype = intConstant(calli, ops[j - 1]);
+			let keytype = intConstant(calli, ops[j - 2]);
+			if (enumid != null && valuetype != null && keytype != null) {
+				res.add(enumid);
+				break;
+			}
+		}
+	}
+	return res;
+}
+
+/**
+ * Builds an index of which configs set each param and which configs or scripts refer to each enum.
+ * Scanning the clientscripts requires the clientscript deobfuscation to be callibrated which is slow
+ */
+export async function buildConfigReferences(cache: EngineCache, opts: { scripts: boolean }) {
+	let res: ConfigReferenceIndex = {
+		params: new Map(),
+		paramRefs: new Map(),
+		enumRefs: new Map(),
+		includesScripts: opts.scripts
+	};
+	//params, structs and enums can't be iterated in caches that still use the old config archives
+	if (cache.getBuildNr() <= 488) {
+		return res;
+	}
+
+	let paramfiles = await cache.getArchiveById(cacheMajors.config, cacheConfigPages.params);
+	for (let file of paramfiles) {
+		res.params.set(file.fileid, parse.params.read(file.buffer, cache));
+	}
+
+	for (let [type, major, parser] of paramHolders) {
+		for await (let { id, file } of iterateConfigFiles(cache, major)) {
+			let config = parser(file, cache);
+			if (!config.extra) { continue; }
+			for (let prop of config.extra) {
+				let value = prop.intvalue ?? prop.stringvalue ?? 0;
+				pushMapList(res.paramRefs, prop.prop, { type, id, value });
+				let paramtype = res.params.get(prop.prop)?.type?.vartype;
+				if (paramtype == subtypes.enum && typeof value == "number" && value != -1) {
+					pushMapList(res.enumRefs, value, { type, id, via: `param ${prop.prop}` });
+				}
+			}
+		}
+	}
+
+	//enums that have other enums as values
+	for await (let { id, file } of iterateConfigFiles(cache, cacheMajors.enums)) {
+		let enumjson = parse.enums.read(file, cache);
+		if (enumjson.value_type2 != subtypes.enum) { continue; }
+		for (let [key, value] of enumjson.intArrayValue1 ?? enumjson.intArrayValue2?.values ?? []) {
+			if (value != -1) { pushMapList(res.enumRefs, value, { type: "enum", id, via: `key ${key}` }); }
+		}
+	}
+
+	let dbrowfiles = await cache.getArchiveById(cacheMajors.config, cacheConfigPages.dbrows).catch(() => []);
+	for (let file of dbrowfiles) {
+		let row = parse.dbrows.read(file.buffer, cache);
+		for (let column of row.unk01?.columndata ?? []) {
+			for (let field of column.values) {
+				field.forEach((value, i) => {
+					if (column.types[i] == subtypes.enum && typeof value == "number" && value != -1) {
+						pushMapList(res.enumRefs, value, { type: "dbrow", id: file.fileid, via: `column ${column.id}` });
+					}
+				});
+			}
+		}
+	}
+
+	if (opts.scripts) {
+		let calli = await prepareClientScript(cache);
+		let scriptindex = await cache.getCacheIndex(cacheMajors.clientscript);
+		for (let index of scriptindex) {
+			if (!index) { continue; }
+			//skip scripts that fail to decode instead of failing the whole index
+			try {
+				let script = parse.clientscript.read(await cache.getFile(index.major, index.minor, index.crc), cache);
+				for (let enumid of scriptEnumIds(calli, script.opcodedata)) {
+					pushMapList(res.enumRefs, enumid, { type: "clientscript", id: index.minor, via: "enum_getvalue" });
+				}
+			} catch (e) {
+				console.warn(`skipped clientscript ${index.minor} in config references: ${(e as Error).message}`);
+			}
+		}
+	}
+
+	return res;
+}
+
+export function paramReferenceInfo(index: ConfigReferenceIndex, paramid: number) {
+	let param = index.params.get(paramid);
+	let type = param?.type;
+	return {
+		id: paramid,
+		type: (type ? subtypeName(type.vartype) : "unknown"),
+		default: type?.defaultstring ?? type?.defaultint ?? null,
+		references: index.paramRefs.get(paramid) ?? []
+	};
+}
+
+export async function enumReferenceInfo(index: ConfigReferenceIndex, cache: EngineCache, enumid: number) {
+	let enumjson = await loadEnum(cache, enumid);
+	let entries = enumjson.intArrayValue1 ?? enumjson.intArrayValue2?.values ?? enumjson.stringArrayValue1 ?? enumjson.stringArrayValue2?.values ?? [];
+	return {
+		id: enumid,
+		keytype: enumTypeName(enumjson.key_type1, enumjson.key_type2) ?? "unknown",
+		valuetype: enumTypeName(enumjson.value_type1, enumjson.value_type2) ?? "unknown",
+		default: enumjson.stringValue ?? enumjson.intValue ?? null,
+		count: entries.length,
+		//scripts are only included if the index was built with them
+		references: index.enumRefs.get(enumid) ?? []
+	};
+}
+
+export async function configReferenceLookup(output: ScriptOutput, outdir: ScriptFS, cache: EngineCache, type: "param" | "enum", ids: number[], scripts: boolean) {
+	output.log("building reference index");
+	let index = await cache.getConfigReferences(scripts);
+	for (let id of ids) {
+		let info = (type == "param" ? paramReferenceInfo(index, id) : await enumReferenceInfo(index, cache, id));
+		output.log(`${type} ${id}: ${info.references.length} references`);
+		await outdir.writeFile(`${type}-${id}.json`, prettyJson(info));
+	}
+}
@@ -0,0 +1,216 @@
+import { CacheFileSource } from "../cache";
+import { cacheConfigPages, cacheMajors } from "../constants";
+import { parse } from "../opdecoder";
+import { subtypes, subtypeName, enumTypeName } from "../clientscript/definitions";
+import { dbtables } from "../../generated/dbtables";
+import { dbrows } from "../../generated/dbrows";
+import { reverseHashes } from "../libs/rshashnames";
+
+type DbRawValue = string | number | [number, number];
+
+export type DbReference = {
+	type: string,
+	id: number,
+	name?: string,
+	//struct params by param id
+	params?: Record<number, string | number>,
+	//enum contents
+	keytype?: string,
+	valuetype?: string,
+	entries?: [number, string | number][]
+};
+export type DbCoord = { level: number, x: number, z: number };
+export type DbValue = string | number | boolean | DbReference | DbCoord | null;
+
+export type DbColumn = {
+	id: number,
+	name: string,
+	types: string[],
+	//same layout as the row values, a list of fields with one value per column type
+	default: DbValue[][] | null
+}
+
+export type JoinedDbTable = {
+	id: number,
+	name?: string,
+	columns: DbColumn[],
+	//one entry per row, each column holds a list of fields which have one value per column type
+	rows: { id: number, values: Record<string, DbValue[][]> }[]
+}
+
+//subtypes that point to another config file
+const referenceTypes = [
+	subtypes.obj, subtypes.namedobj, subtypes.npc, subtypes.loc, subtypes.struct, subtypes.enum,
+	subtypes.dbrow, subtypes.seq, subtypes.spotanim, subtypes.inv, subtypes.model, subtypes.graphic,
+	subtypes.category, subtypes.mapelement, subtypes.quest, subtypes.stat, subtypes.hitmark, subtypes.cursor
+];
+
+/**
+ * Loads all dbrows and groups them by the table they belong to
+ */
+export async function loadDbRowsByTable(source: CacheFileSource) {
+	let files = await source.getArchiveById(cacheMajors.config, cacheConfigPages.dbrows);
+	let tables = new Map<number, { id: number, row: dbrows }[]>();
+	for (let file of files) {
+		let row = parse.dbrows.read(file.buffer, source);
+		if (typeof row.table != "number") { continue; }
+		let rows = tables.get(row.table);
+		if (!rows) { rows = []; tables.set(row.table, rows); }
+		rows.push({ id: file.fileid, row });
+	}
+	return tables;
+}
+
+//resolves names and contents of referenced configs, this is cached since the same refs tend to show up in every row
+export class DbRefResolver {
+	source: CacheFileSource;
+	refs = new Map<string, Promise<Partial<DbReference>>>();
+	private tableNames: Promise<Map<number, string>> | null = null;
+
+	constructor(source: CacheFileSource) {
+		this.source = source;
+	}
+
+	getRef(type: number, id: number) {
+		let key = `${type}-${id}`;
+		let ref = this.refs.get(key);
+		if (!ref) {
+			ref = this.loadRef(type, id).catch(() => ({}));
+			this.refs.set(key, ref);
+		}
+		return ref;
+	}
+
+	//the dbtable files can be named, the names are only known if they are in the known hashes list
+	async getTableName(tableid: number) {
+		this.tableNames ??= this.source.getArchiveById(cacheMajors.config, cacheConfigPages.dbtables).then(files => {
+			let names = new Map<number, string>();
+			for (let file of files) {
+				let name = (file.namehash != null ? reverseHashes.get(file.namehash) : undefined);
+				if (name) { names.set(file.fileid, name); }
+			}
+			return names;
+		});
+		return (await this.tableNames).get(tableid);
+	}
+
+	private async loadRef(type: number, id: number): Promise<Partial<DbReference>> {
+		if (type == subtypes.obj || type == subtypes.namedobj) {
+			return { name: parse.item.read(await this.source.getFileById(cacheMajors.items, id), this.source).name ?? undefined };
+		} else if (type == subtypes.npc) {
+			return { name: parse.npc.read(await this.source.getFileById(cacheMajors.npcs, id), this.source).name ?? undefined };
+		} else if (type == subtypes.loc) {
+			return { name: parse.object.read(await this.source.getFileById(cacheMajors.objects, id), this.source).name ?? undefined };
+		} else if (type == subtypes.struct) {
+			let struct = parse.structs.read(await this.source.getFileById(cacheMajors.structs, id), this.source);
+			let params: Record<number, string | number> = {};
+			for (let prop of struct.extra ?? []) {
+				params[prop.prop] = prop.intvalue ?? prop.stringvalue ?? 0;
+			}
+			return { params };
+		} else if (type == subtypes.enum) {
+			let enumjson = parse.enums.read(await this.source.getFileById(cacheMajors.enums, id), this.source);
+			return {
+				keytype: enumTypeName(enumjson.key_type1, enumjson.key_type2),
+				valuetype: enumTypeName(enumjson.value_type1, enumjson.value_type2),
+				entries: enumjson.intArrayValue1 ?? enumjson.intArrayValue2?.values ?? enumjson.stringArrayValue1 ?? enumjson.stringArrayValue2?.values ?? []
+			};
+		}
+		return {};
+	}
+}
+
+async function convertValue(type: number, value: DbRawValue, refs: DbRefResolver | null): Promise<DbValue> {
+	if (Array.isArray(value)) {
+		//64 bit values are read as two ints
+		return ((BigInt(value[0] >>> 0) << 32n) | BigInt(value[1] >>> 0)).toString();
+	}
+	if (typeof value == "string") { return value; }
+	if (type == subtypes.boolean) { return value == 1; }
+	if (type == subtypes.coordgrid) {
+		if (value == -1) { return null; }
+		return { level: (value >>> 28) & 0x3, x: (value >>> 14) & 0x3fff, z: value & 0x3fff };
+	}
+	if (referenceTypes.includes(type)) {
+		if (value == -1) { return null; }
+		let resolved = await refs?.getRef(type, value);
+		let ref: DbReference = { type: subtypeName(type), id: value, ...resolved };
+		return ref;
+	}
+	return value;
+}
+
+function convertFields(types: number[], fields: DbRawValue[][], refs: DbRefResolver | null) {
+	return Promise.all(fields.map(field => Promise.all(field.map((v, i) => convertValue(types[i], v, refs)))));
+}
+
+/**
+ * Resolves the rows of a table into named columns with typed values, columns missing
+ * from a row get the table default if there is one
+ */
+export async function joinDbTable(tableid: number, table: dbtables, rows: { id: number, row: dbrows }[], refs: DbRefResolver | null) {
+	//column names aren't stored in the cache, only the table itself can have a name hash
+	let columnName = (id: number) => `col${id}`;
+	let columns: DbColumn[] = [];
+	let columntypes = new Map<number, number[]>();
+	for (let coldata of table.unk01?.columndata ?? []) {
+		columntypes.set(coldata.id, coldata.types);
+		let def = (coldata.defaults ? await convertFields(coldata.types, coldata.defaults, refs) : null);
+		columns.push({ id: coldata.id, name: columnName(coldata.id), types: coldata.types.map(subtypeName), default: def });
+	}
+
+	let res: JoinedDbTable = { id: tableid, columns, rows: [] };
+	let tablename = await refs?.getTableName(tableid);
+	if (tablename) { res.name = tablename; }
+	for (let { id, row } of [...rows].sort((a, b) => a.id - b.id)) {
+		let values: Record<string, DbValue[][]> = {};
+		let present = new Set<number>();
+		for (let coldata of row.unk01?.columndata ?? []) {
+			//prefer the types from the row itself since the table might be from a different version
+			let types = (coldata.types.length != 0 ? coldata.types : columntypes.get(coldata.id) ?? []);
+			if (!columntypes.has(coldata.id)) {
+				columntypes.set(coldata.id, types);
+				columns.push({ id: coldata.id, name: columnName(coldata.id), types: types.map(subtypeName), default: null });
+			}
+			values[columnName(coldata.id)] = await convertFields(types, coldata.values, refs);
+			present.add(coldata.id);
+		}
+		for (let col of columns) {
+			if (!present.has(col.id) && col.default) {
+				values[col.name] = col.default;
+			}
+		}
+		res.rows.push({ id, values });
+	}
+	return res;
+}
+
+function valueToText(value: DbValue) {
+	if (value == null) { return ""; }
+	if (typeof value != "object") { return String(value); }
+	if ("level" in value) { return `${value.level},${value.x},${value.z}`; }
+	return (value.name ? `${value.name} (${value.type} ${value.id})` : `${value.type} ${value.id}`);
+}
+
+function csvCell(text: string) {
+	if (/[",\n\r]/.test(text)) { return `"${text.replace(/"/g, "\"\"")}"`; }
+	return text;
+}
+
+/**
+ * Outputs a joined table as csv with one line per row, multiple fields in one cell are split by ";"
+ * and tuple values by "|"
+ */
+export function dbTableToCsv(table: JoinedDbTable) {
+	let lines: string[] = [];
+	lines.push(["row", ...table.columns.map(q => q.name)].map(csvCell).join(","));
+	for (let row of table.rows) {
+		let cells = [row.id + ""];
+		for (let col of table.columns) {
+			let fields = row.values[col.name] ?? [];
+			cells.push(fields.map(field => field.map(valueToText).join("|")).join(";"));
+		}
+		lines.push(cells.map(csvCell).join(","));
+	}
+	return lines.join("\n") + "\n";
+}
@@ -0,0 +1,128 @@
+import { CacheFileSource, CacheIndex, packSqliteBufferArchive, repackGroup } from "../cache";
+import { compress, compressSqlite } from "../cache/compression";
+import { Dat2CacheLoader } from "../cache/dat2cache";
+import { nodeFileOpener } from "../cache/diskstore";
+import { cacheMajors, lastLegacyBuildnr } from "../constants";
+import { crc32 } from "../libs/crc32util";
+import { sqliteExec, sqliteOpenDatabase, sqlitePrepare, sqliteRunStatement } from "../libs/sqlite3wrap";
+import { parse } from "../opdecoder";
+import { CLIScriptFS, ScriptFS, ScriptOutput } from "../scriptrunner";
+import { FileRange, fileRangeIncludes } from "../utils";
+import { cacheindex } from "../../generated/cacheindex";
+import * as path from "path";
+
+export type CacheExportFormat = "jcache" | "dat2";
+
+type ExportTarget = {
+	//container is the group packed and compressed as js5 network container, the index crc is based on this
+	writeGroup(major: number, minor: number, files: Buffer[], container: Buffer, version: number): Promise<void>,
+	writeIndex(major: number, index: Buffer, version: number): Promise<void>,
+	close(): Promise<void>
+}
+
+async function dat2Target(dir: string): Promise<ExportTarget> {
+	let cache = await Dat2CacheLoader.create(nodeFileOpener(dir, true), dir, true);
+	return {
+		async writeGroup(major, minor, files, container, version) {
+			let trailer = Buffer.alloc(2);
+			trailer.writeUInt16BE(version & 0xffff);
+			await cache.writeContainer(major, minor, Buffer.concat([container, trailer]));
+		},
+		async writeIndex(major, index, version) {
+			await cache.writeContainer(cacheMajors.index, major, compress(index, "zlib"));
+		},
+		async close() {
+			await cache.close();
+		}
+	};
+}
+
+async function jcacheTarget(dir: string): Promise<ExportTarget> {
+	let dbs: Awaited<ReturnType<typeof sqliteOpenDatabase>>[] = [];
+	let tables = new Map<number, Promise<{ insertgroup: any, insertindex: any }>>();
+	let opentable = (major: number) => {
+		let table = tables.get(major);
+		if (!table) {
+			table = (async () => {
+				let db = await sqliteOpenDatabase(path.resolve(dir, `js5-${major}.jcache`), { create: true, write: true });
+				dbs.push(db);
+				await sqliteExec(db, `CREATE TABLE IF NOT EXISTS cache(KEY INTEGER PRIMARY KEY, DATA BLOB, VERSION INTEGER, CRC INTEGER);`);
+				await sqliteExec(db, `CREATE TABLE IF NOT EXISTS cache_index(KEY INTEGER PRIMARY KEY, DATA BLOB, VERSION INTEGER, CRC INTEGER);`);
+				await sqliteExec(db, `BEGIN TRANSACTION;`);
+				return {
+					insertgroup: await sqlitePrepare(db, `INSERT OR REPLACE INTO cache(KEY, DATA, VERSION, CRC) VALUES (?,?,?,?)`),
+					insertindex: await sqlitePrepare(db, `INSERT OR REPLACE INTO cache_index(KEY, DATA, VERSION, CRC) VALUES (1,?,?,?)`)
+				};
+			})();
+			tables.set(major, table);
+		}
+		return table;
+	}
+	return {
+		async writeGroup(major, minor, files, container, version) {
+			let table = await opentable(major);
+			let data = compressSqlite(packSqliteBufferArchive(files), "zlib");
+			await sqliteRunStatement(table.insertgroup, [minor, data, version, crc32(container)]);
+		},
+		async writeIndex(major, index, version) {
+			let table = await opentable(major);
+			await sqliteRunStatement(table.insertindex, [compressSqlite(index, "zlib"), version, crc32(compress(index, "zlib"))]);
+		},
+		async close() {
+			for (let db of dbs) {
+				await sqliteExec(db, `COMMIT;`);
+				db.close();
+			}
+		}
+	};
+}
+
+export async function exportCache(output: ScriptOutput, outdir: ScriptFS, source: CacheFileSource, format: CacheExportFormat, ranges: FileRange[]) {
+	if (source.getBuildNr() <= lastLegacyBuildnr) { throw new Error("can only export JS5 caches"); }
+	if (!(outdir instanceof CLIScriptFS)) { throw new Error("cache export needs a directory on the local file system"); }
+	if ((await outdir.readDir(".")).length != 0) { throw new Error("export directory must be empty"); }
+
+	let target = (format == "dat2" ? await dat2Target(outdir.dir) : format == "jcache" ? await jcacheTarget(outdir.dir) : null);
+	if (!target) { throw new Error(`unknown cache format ${format}`); }
+
+	try {
+		let rootindex = await source.getCacheIndex(cacheMajors.index);
+		for (let majorindex of rootindex) {
+			if (!majorindex) { continue; }
+			if (output.state != "running") { break; }
+			let major = majorindex.minor;
+			let indexfile = parse.cacheIndex.read(await source.getFile(cacheMajors.index, major, majorindex.crc), source);
+			let index = await source.getCacheIndex(major);
+
+			let entries: cacheindex["indices"] = [];
+			let skipped = 0;
+			for (let entry of indexfile.indices) {
+				if (output.state != "running") { break; }
+				if (!fileRangeIncludes(ranges, major, entry.minor)) { continue; }
+				let meta: CacheIndex = index[entry.minor];
+				let files: Buffer[];
+				try {
+					files = (await source.getFileArchive(meta)).map(q => q.buffer);
+				} catch (e) {
+					skipped++;
+					continue;
+				}
+				let repacked = repackGroup(entry, files);
+				await target.writeGroup(major, entry.minor, files, repacked.container, entry.version);
+				entries.push(repacked.entry);
+			}
+			if (entries.length == 0) { continue; }
+
+			let newindex = parse.cacheIndex.write({
+				format: indexfile.format,
+				timestamp: indexfile.timestamp,
+				flags: indexfile.flags & ~0b10,
+				indices: entries
+			}, source.getDecodeArgs());
+			await target.writeIndex(major, newindex, indexfile.timestamp);
+			output.log(`exported major ${major}, ${entries.length} groups${skipped != 0 ? `, skipped ${skipped} missing groups` : ""}`);
+		}
+	} finally {
+		await target.close();
+	}
+}
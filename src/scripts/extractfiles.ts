@@ -1,5 +1,6 @@
 import { CacheFileSource, CacheIndex, SubFile } from "../cache";
 import { GameCacheLoader } from "../cache/sqlite";
+import { Dat2CacheLoader } from "../cache/dat2cache";
 import { FileRange, getOrInsert } from "../utils";
 import { ScriptFS, ScriptOutput } from "../scriptrunner";
 import { cacheFileDecodeModes, DecodeMode, DecodeModeFactory } from "./filetypes";
@@ -97,7 +98,7 @@ export async function extractCacheFiles(output: ScriptOutput, outdir: ScriptFS,
 
 		let lastarchive: null | { index: CacheIndex, subfiles: SubFile[], error: Error | null } = null;
 		let archedited = () => {
-			if (!(source instanceof GameCacheLoader)) { throw new Error("can only do this on file source of type gamecacheloader"); }
+			if (!(source instanceof GameCacheLoader) && !(source instanceof Dat2CacheLoader)) { throw new Error("can only do this on file source of type gamecacheloader or dat2cacheloader"); }
 			if (lastarchive) {
 				console.log("writing archive", lastarchive.index.major, lastarchive.index.minor, "files", lastarchive.subfiles.length);
 				console.log(lastarchive.index);
@@ -151,6 +152,8 @@ export async function writeCacheFiles(output: ScriptOutput, source: CacheFileSou
 		if (file.kind != "file") { continue; }
 		//ignore dotfiles
 		if (file.name.match(/^\./)) { continue; }
+		//extra files like sprite frames and atlases are read by the write function of their mode
+		if (file.name.match(/^\w+-[\d_]+\.(frame\d+\.png|atlas\.json)$/)) { continue; }
 
 		let singlematch = file.name.match(/^(\w+)-([\d_]+)\.(\w+)$/);
 		if (singlematch) {
@@ -1,5 +1,6 @@
 import { CacheFileSource, CacheIndexFile } from "../cache";
 import { Openrs2CacheSource, openrs2GetEffectiveBuildnr, validOpenrs2Caches } from "../cache/openrs2loader";
+import { DedupCacheSource } from "../cache/dedupstore";
 import { cacheMajors } from "../constants";
 import { FileRange } from "../utils";
 import { ScriptFS, ScriptOutput } from "../scriptrunner";
@@ -16,17 +17,22 @@ type HistoricVersion = {
     decodedname: string
 }
 
+//when basecache is a deduplicated store the history is built from the builds in the store instead of openrs2
 export async function fileHistory(output: ScriptOutput, outdir: ScriptFS, mode: keyof typeof cacheFileDecodeModes, id: number[], basecache: CacheFileSource | null, buildnrs: FileRange[] | null) {
-    let histsources = await validOpenrs2Caches();
-    if (buildnrs) {
-        histsources = histsources.filter(q => {
-            let build = openrs2GetEffectiveBuildnr(q);
-            return buildnrs.some(q => build >= q.start[0] && build <= q.end[0]);
-        });
-    }
+    let inrange = (build: number) => !buildnrs || buildnrs.some(q => build >= q.start[0] && build <= q.end[0]);
+    let store = (basecache instanceof DedupCacheSource ? basecache : null);
+    let storebuilds = (store ? (await store.store.listBuilds()).filter(q => inrange(q.buildnr)) : []);
+    let histsources = (store ? [] : await validOpenrs2Caches());
+    histsources = histsources.filter(q => inrange(openrs2GetEffectiveBuildnr(q)));
     let decoder = cacheFileDecodeModes[mode]({});
 
     let allsources = function* () {
+        if (store) {
+            for (let build of storebuilds) {
+                yield store.openBuild(build);
+            }
+            return;
+        }
         if (basecache) {
             yield basecache;
         }
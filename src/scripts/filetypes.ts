@@ -6,16 +6,19 @@ import { cacheFilenameHash, constrainedMap } from "../utils";
 import prettyJson from "json-stringify-pretty-compact";
 import { ScriptFS, ScriptOutput } from "../scriptrunner";
 import { JSONSchema6Definition } from "json-schema";
-import { parseLegacySprite, parseSprite, parseTgaSprite } from "../3d/sprite";
-import { pixelsToImageFile } from "../imgutils";
+import { atlasToSubImages, expandSprite, parseLegacySprite, parseSprite, parseTgaSprite, spriteAtlas, SpriteAtlas, spriteFromSheet, spriteSheet, writeSprite } from "../3d/sprite";
+import { fileToImageData, makeImageData, pixelsToApng, pixelsToImageFile } from "../imgutils";
 import { crc32, CrcBuilder } from "../libs/crc32util";
-import { getModelHashes, EngineCache } from "../3d/modeltothree";
-import { ParsedTexture } from "../3d/textures";
+import { getModelHashes, EngineCache, ThreejsSceneCache } from "../3d/modeltothree";
+import type { SimpleModelInfo } from "../3d/modelnodes";
+import { encodeOb3Model } from "../3d/rt7model";
+import { encodeTexture, ParsedTexture, textureEncodeOptions, TextureEncodeOptions } from "../3d/textures";
 import { parseMusic } from "./musictrack";
 import { legacyGroups, legacyMajors } from "../cache/legacycache";
 import { classicGroups } from "../cache/classicloader";
 import { renderCutscene } from "./rendercutscene";
 import { UiRenderContext, renderRsInterfaceHTML } from "./renderrsinterface";
+import { loadDbRowsByTable, joinDbTable, dbTableToCsv, DbRefResolver } from "./dbtables";
 import { compileClientScript, prepareClientScript, renderClientScript, writeClientVarFile, writeOpcodeFile } from "../clientscript";
 
 
@@ -525,19 +528,111 @@ const decodeLegacySprite = (minor: number): DecodeModeFactory => () => {
 	}
 }
 
+const spriteFrameDelay = 100;
+
 const decodeSprite = (major: number): DecodeModeFactory => () => {
 	return {
 		ext: "png",
 		...noArchiveIndex(major),
 		...throwOnNonSimple,
 		read(b, id) {
-			//TODO support subimgs
 			return pixelsToImageFile(parseSprite(b)[0].img, "png", 1);
 		},
-		description: "Sprites are all images that are used in ui. The client stores sprites are uncompressed bitmaps. Currently only the first frame for multi-frame sprites is extracted."
+		async write(b, id, source) {
+			let img = await fileToImageData(b, "image/png", false);
+			//replace the first frame and keep the rest of the original sprite
+			let original = await source.getFile(major, id[0]).then(q => parseSprite(q, true), () => []);
+			let frames = (original.length != 0 ? original : [{ x: 0, y: 0, fullwidth: img.width, fullheight: img.height, img }]);
+			frames[0] = { ...frames[0], img };
+			return writeSprite(frames);
+		},
+		description: "Sprites are all images that are used in ui. The client stores sprites are uncompressed bitmaps. Only the first frame for multi-frame sprites is extracted, use the sprites_frames, sprites_sheet or sprites_apng modes to get all frames."
+	}
+}
+
+const decodeSpriteFrames = (major: number): DecodeModeFactory => () => {
+	//frames are written as extra files next to the atlas
+	let fs: ScriptFS | null = null;
+	return {
+		ext: "json",
+		...noArchiveIndex(major),
+		...throwOnNonSimple,
+		prepareDump(output) { fs = output; },
+		prepareWrite(output) { fs = output; },
+		async read(b, id) {
+			let imgs = parseSprite(b, true);
+			let atlas = spriteAtlas(id[0], imgs);
+			for (let [i, img] of imgs.entries()) {
+				if (img.img.width == 0 || img.img.height == 0) { continue; }
+				let filename = `sprites_frames-${id[0]}.frame${i}.png`;
+				atlas.frames[i].file = filename;
+				await fs!.writeFile(filename, await pixelsToImageFile(img.img, "png", 1));
+			}
+			return prettyJson(atlas);
+		},
+		async write(b) {
+			let atlas: SpriteAtlas = JSON.parse(b.toString("utf8"));
+			let frames: ImageData[] = [];
+			for (let frame of atlas.frames) {
+				if (frame.width == 0 || frame.height == 0) { frames.push(makeImageData(null, 0, 0)); continue; }
+				if (!frame.file) { throw new Error("atlas frame has no file"); }
+				frames.push(await fileToImageData(await fs!.readFileBuffer(frame.file), "image/png", false));
+			}
+			return writeSprite(atlasToSubImages(atlas, frames));
+		},
+		description: "Extracts every frame of a sprite as a separate png, along with a json atlas containing the frame offsets and the original palette."
+	}
+}
+
+const decodeSpriteSheet = (major: number): DecodeModeFactory => () => {
+	//the atlas is written as extra file next to the sheet
+	let fs: ScriptFS | null = null;
+	return {
+		ext: "png",
+		...noArchiveIndex(major),
+		...throwOnNonSimple,
+		prepareDump(output) { fs = output; },
+		prepareWrite(output) { fs = output; },
+		async read(b, id) {
+			let { sheet, atlas } = spriteSheet(id[0], parseSprite(b, true));
+			await fs!.writeFile(`sprites_sheet-${id[0]}.atlas.json`, prettyJson(atlas));
+			return pixelsToImageFile(sheet, "png", 1);
+		},
+		async write(b, id) {
+			let atlas: SpriteAtlas = JSON.parse(await fs!.readFileText(`sprites_sheet-${id[0]}.atlas.json`));
+			let sheet = await fileToImageData(b, "image/png", false);
+			return writeSprite(spriteFromSheet(sheet, atlas));
+		},
+		description: "Extracts all frames of a sprite packed into one sprite sheet, with a json atlas containing the position of each frame in the sheet and the original palette."
+	}
+}
+
+const decodeSpriteAnimation = (major: number): DecodeModeFactory => () => {
+	return {
+		ext: "png",
+		...noArchiveIndex(major),
+		...throwOnNonSimple,
+		read(b) {
+			let frames = parseSprite(b, true).map(expandSprite);
+			return pixelsToApng(frames, spriteFrameDelay);
+		},
+		description: "Extracts multi-frame sprites as an animated png. Sprites don't store frame timings so every frame is shown for 100ms."
 	}
 }
 
+function defaultTextureOptions(major: number, img: ImageData): TextureEncodeOptions {
+	let type: TextureEncodeOptions["type"];
+	if (major == cacheMajors.texturesDds) { type = "dds"; }
+	else if (major == cacheMajors.texturesPng) { type = "png"; }
+	else if (major == cacheMajors.texturesBmp) { type = "bmpmips"; }
+	else if (major == cacheMajors.texturesKtx) { type = "ktx"; }
+	else { throw new Error(`can't add new textures to major ${major}`); }
+	let padding = (type == "png" ? 0 : 32);
+	//mip levels down to 4x4
+	let mipmaps = Math.max(1, Math.floor(Math.log2(Math.min(img.width, img.height) + padding * 2)) - 1);
+	return { type, mipmaps, alpha: true, textureCount: null, padding, rawPng: false };
+}
+
 const decodeTexture = (major: number): DecodeModeFactory => () => {
 	return {
 		ext: "png",
@@ -548,12 +643,49 @@ const decodeTexture = (major: number): DecodeModeFactory => () => {
 			let p = new ParsedTexture(b, false, true);
 			return p.toImageData().then(q => pixelsToImageFile(q, "png", 1));
 		},
-		write(b) { throw new Error("write not supported"); },
+		async write(b, id, source) {
+			let img = await fileToImageData(b, "image/png", false);
+			//use the same format, mip count and alpha mode as the texture we're replacing
+			let original = await source.getFile(major, id[0]).catch(() => null);
+			let opts = (original ? textureEncodeOptions(new ParsedTexture(original, false, true)) : defaultTextureOptions(major, img));
+			return encodeTexture(img, opts);
+		},
 		combineSubs(b: Buffer[]) {
 			if (b.length != 1) { throw new Error("not supported"); }
 			return b[0];
 		},
-		description: "Textures are images that are wrapped around models to display colors are fine details."
+		description: "Textures are images that are wrapped around models to display colors are fine details. Edited textures are written back in the format of the texture they replace."
+	}
+}
+
+//the model nodes pull in the renderer, so they are only loaded once a gltf mode is used
+type ModelNodesModule = typeof import("../3d/modelnodes");
+
+const decodeModelGltf = (lookup: DecodeLookup, getmodel: (nodes: ModelNodesModule, cache: ThreejsSceneCache, id: number) => Promise<SimpleModelInfo<any, any>>, importable = false): DecodeModeFactory => () => {
+	let scene: ThreejsSceneCache | null = null;
+	let nodes: ModelNodesModule | null = null;
+	return {
+		ext: "glb",
+		...lookup,
+		...throwOnNonSimple,
+		async prepareDump(output, source) {
+			nodes = await import("../3d/modelnodes");
+			scene = await ThreejsSceneCache.create(await EngineCache.create(source));
+		},
+		async read(b, id, source) {
+			if (!scene || !nodes) { throw new Error("scene cache not loaded"); }
+			return nodes.modelInfoToGltf(scene, await getmodel(nodes, scene, id[0]));
+		},
+		async write(b, id, source) {
+			if (!importable) { throw new Error("write not supported"); }
+			let { importModelFile } = await import("../3d/modelimport");
+			return encodeOb3Model(importModelFile(b), source);
+		},
+		combineSubs(b: Buffer[]) {
+			if (b.length != 1) { throw new Error("not supported"); }
+			return b[0];
+		},
+		description: "Exports models as binary gltf with textures and all animations of the model or its animgroup embedded. Runs without a renderer so it also works from the command line." + (importable ? " Writing accepts glb, gltf (with embedded buffers) or obj files, materials are mapped back to their rs material using the materialId in their gltf extras, or by names like 'material:<id>'." : "")
 	}
 }
 
@@ -629,9 +761,23 @@ export const cacheFileJsonModes = constrainedMap<JsonBasedFile>()({
 	maplabels: { parser: parse.maplabels, lookup: singleMinorIndex(cacheMajors.config, cacheConfigPages.maplabels) },
 	cutscenes: { parser: parse.cutscenes, lookup: noArchiveIndex(cacheMajors.cutscenes) },
 
+	varplayer: { parser: parse.vars, lookup: singleMinorIndex(cacheMajors.config, cacheConfigPages.varplayer) },
+	varnpc: { parser: parse.vars, lookup: singleMinorIndex(cacheMajors.config, cacheConfigPages.varnpc) },
+	varclient: { parser: parse.vars, lookup: singleMinorIndex(cacheMajors.config, cacheConfigPages.varclient) },
+	varworld: { parser: parse.vars, lookup: singleMinorIndex(cacheMajors.config, cacheConfigPages.varworld) },
+	varregion: { parser: parse.vars, lookup: singleMinorIndex(cacheMajors.config, cacheConfigPages.varregion) },
+	varobject: { parser: parse.vars, lookup: singleMinorIndex(cacheMajors.config, cacheConfigPages.varobject) },
+	varclan: { parser: parse.vars, lookup: singleMinorIndex(cacheMajors.config, cacheConfigPages.varclan) },
+	varclansettings: { parser: parse.vars, lookup: singleMinorIndex(cacheMajors.config, cacheConfigPages.varclansettings) },
+	varcampaign: { parser: parse.vars, lookup: singleMinorIndex(cacheMajors.config, cacheConfigPages.varcampaign) },
+	varplayergroup: { parser: parse.vars, lookup: singleMinorIndex(cacheMajors.config, cacheConfigPages.varplayergroup) },
+	varbits: { parser: parse.varbits, lookup: singleMinorIndex(cacheMajors.config, cacheConfigPages.varbits) },
+
 	particles0: { parser: parse.particles_0, lookup: singleMinorIndex(cacheMajors.particles, 0) },
 	particles1: { parser: parse.particles_1, lookup: singleMinorIndex(cacheMajors.particles, 1) },
 
+	worldmapareas: { parser: parse.mapZones, lookup: singleMinorIndex(cacheMajors.worldmap, 0) },
+
 	maptiles: { parser: parse.mapsquareTiles, lookup: worldmapIndex(cacheMapFiles.squares) },
 	maptiles_nxt: { parser: parse.mapsquareTilesNxt, lookup: worldmapIndex(cacheMapFiles.square_nxt) },
 	maplocations: { parser: parse.mapsquareLocations, lookup: worldmapIndex(cacheMapFiles.locations) },
@@ -682,8 +828,34 @@ const npcmodels: DecodeModeFactory = function () {
 	}
 }
 
+function decodeDbTables(csv: boolean): DecodeModeFactory {
+	return function () {
+		let rowsPromise: ReturnType<typeof loadDbRowsByTable> | null = null;
+		let refs: DbRefResolver | null = null;
+		return {
+			...singleMinorIndex(cacheMajors.config, cacheConfigPages.dbtables),
+			...throwOnNonSimple,
+			ext: (csv ? "csv" : "json"),
+			async read(b, id, source) {
+				rowsPromise ??= loadDbRowsByTable(source);
+				refs ??= new DbRefResolver(source);
+				let rows = (await rowsPromise).get(id[0]) ?? [];
+				let table = await joinDbTable(id[0], parse.dbtables.read(b, source), rows, refs);
+				return (csv ? dbTableToCsv(table) : prettyJson(table));
+			},
+			combineSubs: (csv ? throwOnNonSimple.combineSubs : b => `[${b.join(",\n")}]`),
+			description: (csv
+				? "Exports each dbtable with all its rows as csv, one line per row."
+				: "Resolves all dbrows of each dbtable into typed columns. References to other configs get their name where possible, structs get their params and enums their contents.")
+		}
+	}
+}
+
 const cacheFileDecodersImage = constrainedMap<DecodeModeFactory>()({
 	sprites: decodeSprite(cacheMajors.sprites),
+	sprites_frames: decodeSpriteFrames(cacheMajors.sprites),
+	sprites_sheet: decodeSpriteSheet(cacheMajors.sprites),
+	sprites_apng: decodeSpriteAnimation(cacheMajors.sprites),
 	textures_dds: decodeTexture(cacheMajors.texturesDds),
 	textures_png: decodeTexture(cacheMajors.texturesPng),
 	textures_bmp: decodeTexture(cacheMajors.texturesBmp),
@@ -714,11 +886,20 @@ const cacheFileDecodersInteractive = constrainedMap<DecodeModeFactory>()({
 	clientscripttext: decodeClientScriptText,
 	clientscriptviewer: decodeClientScriptViewer,
 })
+const cacheFileDecodersModel = constrainedMap<DecodeModeFactory>()({
+	models_gltf: decodeModelGltf(noArchiveIndex(cacheMajors.models), (nodes, cache, id) => nodes.modelToModel(cache, id), true),
+	items_gltf: decodeModelGltf(chunkedIndex(cacheMajors.items), (nodes, cache, id) => nodes.itemToModel(cache, id)),
+	npcs_gltf: decodeModelGltf(chunkedIndex(cacheMajors.npcs), (nodes, cache, id) => nodes.npcBodyToModel(cache, id)),
+	locs_gltf: decodeModelGltf(chunkedIndex(cacheMajors.objects), (nodes, cache, id) => nodes.locToModel(cache, id)),
+	spotanims_gltf: decodeModelGltf(chunkedIndex(cacheMajors.spotanims), (nodes, cache, id) => nodes.spotAnimToModel(cache, id)),
+});
 const cacheFileDecodersOther = constrainedMap<DecodeModeFactory>()({
 	bin: decodeBinary,
 	spritehash: decodeSpriteHash,
 	modelhash: decodeMeshHash,
 	npcmodels: npcmodels,
+	dbtables_joined: decodeDbTables(false),
+	dbtables_csv: decodeDbTables(true),
 });
 
 const cacheFileDecodersJson = (Object.fromEntries(Object.entries(cacheFileJsonModes)
@@ -728,6 +909,7 @@ export const cacheFileDecodeGroups = {
 	image: cacheFileDecodersImage,
 	legacyImage: cacheFileDecodersLegacyImage,
 	interactive: cacheFileDecodersInteractive,
+	model: cacheFileDecodersModel,
 	sound: cacheFileDecodersSound,
 	other: cacheFileDecodersOther,
 	json: cacheFileDecodersJson,
@@ -0,0 +1,115 @@
+import { CacheFileSource } from "../cache";
+import { cacheMajors } from "../constants";
+import { parse } from "../opdecoder";
+import { ScriptFS, ScriptOutput } from "../scriptrunner";
+import { EngineCache, ThreejsSceneCache, ob3ModelToThree } from "../3d/modeltothree";
+import { bakeFrameSequence, frameSequenceToClip, loadFrameSequence, mountBakedSkeleton } from "../3d/animationframes";
+import { getBoneCenters } from "../3d/rt7model";
+import { Matrix4, SkinnedMesh, Vector3 } from "three";
+import prettyJson from "json-stringify-pretty-compact";
+
+type FrameAnimResult = {
+	seqid: number,
+	frames: number,
+	vertices: number,
+	maxerror: number,
+	meanerror: number,
+	worstframe: number,
+	passed: boolean
+}
+
+//max vertex deviation in model units, the client rounds vertices to whole units
+const maxAllowedError = 0.5;
+
+/**
+ * Compares the vertex positions of the baked (client equivalent) frame animation with the
+ * positions that result from the bone tracks used by the viewer and the gltf exporter
+ */
+export async function checkFrameAnimations(output: ScriptOutput, outdir: ScriptFS, source: CacheFileSource, modelid: number, seqids: number[]) {
+	let engine = await EngineCache.create(source);
+	let scene = await ThreejsSceneCache.create(engine);
+	let modeldata = await scene.getModelData(modelid);
+	if (modeldata.bonecount == 0) { throw new Error(`model ${modelid} has no bones`); }
+	let mesh = await ob3ModelToThree(scene, modeldata);
+	let { mixer } = mountBakedSkeleton(mesh, modeldata);
+	let skinnedmeshes: SkinnedMesh[] = [];
+	mesh.traverse(node => {
+		if (node instanceof SkinnedMesh) { skinnedmeshes.push(node); }
+	});
+
+	let centers = getBoneCenters(modeldata);
+	let restinverses = centers.map(center => {
+		let matrix = new Matrix4();
+		if (center.weightsum != 0) {
+			matrix.makeTranslation(-center.xsum / center.weightsum, -center.ysum / center.weightsum, -center.zsum / center.weightsum);
+		}
+		return matrix;
+	});
+
+	let results: FrameAnimResult[] = [];
+	let bonematrix = new Matrix4();
+	let vertex = new Vector3();
+	let expected = new Vector3();
+	let actual = new Vector3();
+	let tmp = new Vector3();
+	for (let seqid of seqids) {
+		if (output.state != "running") { break; }
+		let seq = parse.sequences.read(await engine.getFileById(cacheMajors.sequences, seqid), engine.rawsource);
+		if (!seq.frames) {
+			output.log(`skipped sequence ${seqid}, not a frame based animation`);
+			continue;
+		}
+		let sequence = await loadFrameSequence(scene, seq.frames);
+		let baked = bakeFrameSequence(sequence, modeldata);
+		let clip = frameSequenceToClip(sequence, modeldata);
+		mixer.stopAllAction();
+		mixer.clipAction(clip, mesh).play();
+
+		let result: FrameAnimResult = { seqid, frames: sequence.keyframetimes.length, vertices: 0, maxerror: 0, meanerror: 0, worstframe: -1, passed: false };
+		let errorsum = 0;
+		for (let frame = 0; frame < sequence.keyframetimes.length; frame++) {
+			mixer.setTime(sequence.keyframetimes[frame]);
+			mesh.updateMatrixWorld(true);
+			for (let skinned of skinnedmeshes) {
+				skinned.skeleton.update();
+				let geo = skinned.geometry;
+				let pos = geo.attributes.position;
+				let ids = geo.attributes.RA_skinIndex_bone;
+				let weights = geo.attributes.RA_skinWeight_bone;
+				if (!ids || !weights) { continue; }
+				for (let i = 0; i < pos.count; i++) {
+					vertex.fromBufferAttribute(pos, i);
+					expected.set(0, 0, 0);
+					for (let j = 0; j < ids.itemSize; j++) {
+						let weight = weights.getComponent(i, j);
+						if (weight == 0) { continue; }
+						let boneid = ids.getComponent(i, j);
+						//bones that aren't part of the framebase stay in rest pose
+						if (baked[boneid] && restinverses[boneid]) {
+							bonematrix.fromArray(baked[boneid], frame * 16).multiply(restinverses[boneid]);
+						} else {
+							bonematrix.identity();
+						}
+						expected.addScaledVector(tmp.copy(vertex).applyMatrix4(bonematrix), weight);
+					}
+					skinned.getVertexPosition(i, actual);
+					let error = actual.distanceTo(expected);
+					errorsum += error;
+					result.vertices++;
+					if (error > result.maxerror) {
+						result.maxerror = error;
+						result.worstframe = frame;
+					}
+				}
+			}
+		}
+		result.meanerror = (result.vertices == 0 ? 0 : errorsum / result.vertices);
+		result.passed = result.maxerror <= maxAllowedError;
+		results.push(result);
+		output.log(`sequence ${seqid}: ${result.passed ? "ok" : "mismatch"}, max error ${result.maxerror.toFixed(3)} (frame ${result.worstframe}), mean error ${result.meanerror.toFixed(4)}`);
+	}
+
+	let failed = results.filter(q => !q.passed).length;
+	output.log(`${results.length - failed}/${results.length} sequences match`);
+	await outdir.writeFile(`frameanims_${modelid}.json`, prettyJson(results));
+}
@@ -0,0 +1,29 @@
+import { createFileSourceCache } from "../cache/fscache";
+import { cacheMajors } from "../constants";
+import { ScriptOutput } from "../scriptrunner";
+
+function formatSize(bytes: number) {
+    return `${(bytes / 1024 / 1024).toFixed(1)}mb`;
+}
+
+function majorName(major: number) {
+    return Object.entries(cacheMajors).find(q => q[1] == major)?.[0] ?? `${major}`;
+}
+
+export async function groupCacheStats(output: ScriptOutput) {
+    let cache = createFileSourceCache();
+    if (!cache) { throw new Error("persistent group cache is not available in this environment"); }
+    let stats = await cache.getStats();
+    output.log(`${stats.files} files, ${formatSize(stats.size)} of ${formatSize(stats.maxsize)}`);
+    for (let major of stats.majors) {
+        output.log(`${majorName(major.major).padEnd(20)} ${major.files.toString().padStart(7)} files ${formatSize(major.size).padStart(10)}`);
+    }
+}
+
+export async function groupCachePrune(output: ScriptOutput, maxsizemb: number) {
+    let cache = createFileSourceCache();
+    if (!cache) { throw new Error("persistent group cache is not available in this environment"); }
+    let removed = await cache.prune(maxsizemb * 1024 * 1024);
+    let stats = await cache.getStats();
+    output.log(`removed ${formatSize(removed)}, ${stats.files} files and ${formatSize(stats.size)} left`);
+}
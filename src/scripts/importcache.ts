@@ -0,0 +1,84 @@
+import { CacheFileSource, CacheIndex, CacheIndexFile } from "../cache";
+import { ClassicFileSource, classicGroups } from "../cache/classicloader";
+import { DedupCacheStore } from "../cache/dedupstore";
+import { cacheMajors } from "../constants";
+import { ScriptOutput } from "../scriptrunner";
+import { FileRange, fileRangeIncludes } from "../utils";
+
+function syntheticIndex(major: number, minor: number): CacheIndex {
+	return { major, minor, crc: 0, version: 0, name: null, subindexcount: 1, subindices: [0], subnames: null };
+}
+
+//classic caches don't have index files, all files live in index 0
+function classicIndices() {
+	let rootindex: CacheIndexFile = [];
+	rootindex[0] = syntheticIndex(cacheMajors.index, 0);
+	let index: CacheIndexFile = [];
+	for (let minor of Object.values(classicGroups)) {
+		index[minor] = syntheticIndex(0, minor);
+	}
+	return { rootindex, index };
+}
+
+export async function importCache(output: ScriptOutput, storefile: string, source: CacheFileSource, name: string, ranges: FileRange[]) {
+	let store = await DedupCacheStore.open(storefile, true);
+	try {
+		let meta = source.getCacheMeta();
+		let build = await store.addBuild(name || meta.name, source.getBuildNr(), meta.timestamp, meta.descr);
+		let classic = (source instanceof ClassicFileSource ? classicIndices() : null);
+
+		let rootindex = classic?.rootindex ?? await source.getCacheIndex(cacheMajors.index);
+		let totalgroups = 0;
+		let totalnew = 0;
+		for (let majorindex of rootindex) {
+			if (!majorindex) { continue; }
+			if (output.state != "running") { break; }
+			let major = majorindex.minor;
+			if (!ranges.some(q => major >= q.start[0] && major <= q.end[0])) { continue; }
+
+			let index: CacheIndexFile;
+			try {
+				index = classic?.index ?? await source.getCacheIndex(major);
+			} catch (e) {
+				output.log(`skipping major ${major}, ${(e as Error).message}`);
+				continue;
+			}
+
+			await store.beginTransaction();
+			try {
+				//keep the raw index file around if the source has it so getFile(255, major) keeps working
+				let indexfile = (classic ? null : await source.getFile(cacheMajors.index, major, majorindex.crc).catch(() => null));
+				let indexhash = (indexfile ? (await store.addGroup([{ buffer: indexfile, fileid: 0, namehash: null, offset: 0, size: indexfile.byteLength }])).hash : null);
+				await store.setBuildGroup(build.id, cacheMajors.index, major, indexhash, majorindex);
+
+				let groups = 0;
+				let newgroups = 0;
+				let skipped = 0;
+				for (let entry of index) {
+					if (!entry) { continue; }
+					if (output.state != "running") { break; }
+					if (!fileRangeIncludes(ranges, major, entry.minor)) { continue; }
+					let files;
+					try {
+						files = await source.getFileArchive(entry);
+					} catch (e) {
+						skipped++;
+						continue;
+					}
+					let { hash, isnew } = await store.addGroup(files);
+					await store.setBuildGroup(build.id, major, entry.minor, hash, entry);
+					groups++;
+					if (isnew) { newgroups++; }
+				}
+				totalgroups += groups;
+				totalnew += newgroups;
+				output.log(`imported major ${major}, ${groups} groups of which ${newgroups} new${skipped != 0 ? `, skipped ${skipped} missing groups` : ""}`);
+			} finally {
+				await store.commitTransaction();
+			}
+		}
+		output.log(`imported ${build.name} (build ${build.buildnr}), ${totalgroups} groups, ${totalgroups - totalnew} already stored by other builds`);
+	} finally {
+		store.close();
+	}
+}
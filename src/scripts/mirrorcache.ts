@@ -0,0 +1,15 @@
+import { CacheFileSource } from "../cache";
+import { Openrs2MirrorServer } from "../cache/openrs2server";
+import { ScriptOutput } from "../scriptrunner";
+
+export async function mirrorCaches(output: ScriptOutput, sources: CacheFileSource[], port: number, host: string) {
+	let server = new Openrs2MirrorServer();
+	for (let source of sources) {
+		let cache = server.addCache(source);
+		output.log(`cache ${cache.id}: ${source.getCacheMeta().name}, build ${source.getBuildNr()}`);
+	}
+	await server.listen(port, host || undefined);
+	let endpoint = `http://${host || "localhost"}:${port}`;
+	output.log(`serving ${sources.length} caches on ${endpoint}, connect using --source openrs2:<id>:${endpoint}`);
+	await new Promise<void>(done => server.server.on("close", done));
+}
@@ -0,0 +1,10 @@
+import { CacheFileSource } from "../cache";
+import { Js5Server } from "../cache/js5server";
+import { ScriptOutput } from "../scriptrunner";
+
+export async function serveCache(output: ScriptOutput, source: CacheFileSource, port: number, host: string) {
+	let server = new Js5Server(source);
+	await server.listen(port, host || undefined);
+	output.log(`serving ${source.getCacheMeta().name} as js5 server on port ${port}, connect using --source live:${host || "localhost"}:${port}`);
+	await server.closed;
+}
@@ -17,10 +17,20 @@ export type DecodeErrorJson = {
 	error: string
 }
 
+export type RoundtripMismatch = {
+	label: string,
+	offset: number,
+	original: string,
+	written: string
+}
+
 export type DecodeEntry = { major: number, minor: number, subfile: number, file: Buffer, name?: string };
 
 type Outputmode = "json" | "hextext" | "original" | "none";
 
+//max number of opcodes to skip when lining up the original and re-encoded file
+const roundtripLookahead = 32;
+
 export function defaultTestDecodeOpts() {
 	return {
 		skipMinorAfterError: false,
@@ -29,7 +39,9 @@ export function defaultTestDecodeOpts() {
 		maxerrs: 20,
 		orderBySize: false,
 		outmode: "json" as Outputmode,
-		dumpall: false
+		dumpall: false,
+		//re-encode every decoded file and compare with the original bytes
+		roundtrip: false
 	};
 }
 
@@ -139,6 +151,8 @@ export async function testDecode(output: ScriptOutput, outdir: ScriptFS, source:
 	let errfilesizes: number[] = [];
 	let errorcount = 0;
 	let nsuccess = 0;
+	let roundtripfails = 0;
+	let opcodemismatches = new Map<string, number>();
 	let lastProgress = Date.now();
 
 	let fileiter: () => AsyncGenerator<DecodeEntry>;
@@ -218,9 +232,25 @@ export async function testDecode(output: ScriptOutput, outdir: ScriptFS, source:
 					errfilesizes.push(file.file.byteLength);
 					errorcount++;
 				}
+				let logicalindex = mode.lookup.fileToLogical(source, file.major, file.minor, file.subfile);
+				let filename = `${res.success ? "pass" : "fail"}-${file.name ? `${file.name}` : `${logicalindex.join("_")}`}`;
+				if (opts.roundtrip && res.success) {
+					let roundtrip = roundtripDecodeFile(mode.parser, res, source);
+					if (!roundtrip.success) {
+						roundtripfails++;
+						errorcount++;
+						let labels = new Set(roundtrip.mismatches.map(q => q.label));
+						labels.forEach(q => opcodemismatches.set(q, (opcodemismatches.get(q) ?? 0) + 1));
+						output.log(`roundtrip mismatch in ${logicalindex.join(".")}: ${roundtrip.error?.message} (${[...labels].join(", ")})`);
+						outdir.writeFile(`roundtrip-${file.name ?? logicalindex.join("_")}.json`, JSON.stringify({
+							error: roundtrip.error?.message,
+							originalLength: file.file.byteLength,
+							writtenLength: roundtrip.written?.byteLength ?? 0,
+							mismatches: roundtrip.mismatches
+						}, undefined, "\t"));
+					}
+				}
 				if (opts.dumpall || !res.success) {
-					let logicalindex = mode.lookup.fileToLogical(source, file.major, file.minor, file.subfile);
-					let filename = `${res.success ? "pass" : "fail"}-${file.name ? `${file.name}` : `${logicalindex.join("_")}`}`;
 					if (opts.outmode == "json") {
 						outdir.writeFile(filename + ".hexerr.json", res.getDebugFile(opts.outmode));
 					}
@@ -244,6 +274,13 @@ export async function testDecode(output: ScriptOutput, outdir: ScriptFS, source:
 
 	output.log("completed files:", nsuccess);
 	output.log(errorcount, "errors");
+	if (opts.roundtrip) {
+		output.log(`${nsuccess - roundtripfails}/${nsuccess} decoded files re-encoded to identical bytes`);
+		let sorted = [...opcodemismatches].sort((a, b) => b[1] - a[1]);
+		for (let [label, count] of sorted) {
+			output.log(`roundtrip mismatches in opcode ${label}: ${count} files`);
+		}
+	}
 }
 
 
@@ -285,25 +322,8 @@ export function testDecodeFile(decoder: FileParser<any>, buffer: Buffer, source:
 				state: null,
 				error: error?.message ?? "success"
 			};
-			let index = 0;
-			for (let i = 0; i < debugdata.opcodes.length; i++) {
-				let op = debugdata.opcodes[i];
-				let nextop = (i + 1 < debugdata.opcodes.length ? debugdata.opcodes[i + 1] : null);
-				let endindex = nextop?.index ?? state.scan;
-				let sliceend = endindex;
-				if (op.jump) {
-					index = op.jump.to;
-					if (index == endindex) {
-						continue;
-					}
-				}
-				let opstr = " ".repeat(Math.max(0, op.stacksize - 1)) + op.op;
-				err.chunks.push({ offset: index, len: sliceend - index, label: opstr });
-				index = endindex;
-			}
-			let remainingbytes = state.endoffset - index;
-			let remainderchunk: DecodeErrorJson["chunks"][number] = { offset: index, len: remainingbytes, label: `remainder: ${remainingbytes}` };
-			err.chunks.push(remainderchunk);
+			let { chunks, remainderchunk } = getDecodeChunks(debugdata, state);
+			err.chunks.push(...chunks, remainderchunk);
 			// err.state = state.stack[state.stack.length - 1] ?? null;
 
 			if (outmode == "json") {
@@ -345,5 +365,101 @@ export function testDecodeFile(decoder: FileParser<any>, buffer: Buffer, source:
 		}
 		return errorfile as any;
 	}
-	return { success, error, getDebugFile, state, debugdata };
+	return { success, error, getDebugFile, state, debugdata, result: res };
+}
+
+//splits the decoded part of the file into the byte ranges that each opcode was read from
+function getDecodeChunks(debugdata: ReturnType<typeof testDecodeFile>["debugdata"], state: DecodeState) {
+	let chunks: DecodeErrorJson["chunks"] = [];
+	let index = 0;
+	for (let i = 0; i < debugdata.opcodes.length; i++) {
+		let op = debugdata.opcodes[i];
+		let nextop = (i + 1 < debugdata.opcodes.length ? debugdata.opcodes[i + 1] : null);
+		let endindex = nextop?.index ?? state.scan;
+		let sliceend = endindex;
+		if (op.jump) {
+			index = op.jump.to;
+			if (index == endindex) {
+				continue;
+			}
+		}
+		let opstr = " ".repeat(Math.max(0, op.stacksize - 1)) + op.op;
+		chunks.push({ offset: index, len: sliceend - index, label: opstr });
+		index = endindex;
+	}
+	let remainingbytes = state.endoffset - index;
+	let remainderchunk: DecodeErrorJson["chunks"][number] = { offset: index, len: remainingbytes, label: `remainder: ${remainingbytes}` };
+	return { chunks, remainderchunk };
+}
+
+//re-encodes a successfully decoded file and compares the result per opcode with the original bytes
+export function roundtripDecodeFile(decoder: FileParser<any>, decoded: ReturnType<typeof testDecodeFile>, source: CacheFileSource) {
+	let original = decoded.state.buffer;
+	let mismatches: RoundtripMismatch[] = [];
+	let written: Buffer;
+	try {
+		written = decoder.write(decoded.result, source.getDecodeArgs());
+	} catch (e) {
+		return { success: false, error: e as Error, written: null, mismatches };
+	}
+	if (written.equals(original)) {
+		return { success: true, error: null, written, mismatches };
+	}
+
+	//decode the written file again to find the bytes that belong to each opcode
+	let rewritten = testDecodeFile(decoder, written, source);
+	let origchunks = getDecodeChunks(decoded.debugdata, decoded.state).chunks;
+	if (!rewritten.success) {
+		//can't line up opcodes if the written file doesn't decode, report the first differing byte instead
+		let offset = 0;
+		while (offset < original.byteLength && offset < written.byteLength && original[offset] == written[offset]) { offset++; }
+		let chunk = origchunks.find(q => offset >= q.offset && offset < q.offset + q.len);
+		mismatches.push({
+			label: chunk?.label.trim() ?? "unknown",
+			offset,
+			original: original.slice(offset, offset + 16).toString("hex"),
+			written: written.slice(offset, offset + 16).toString("hex")
+		});
+		return { success: false, error: new Error(`re-encoded file fails to decode: ${rewritten.error?.message}`), written, mismatches };
+	}
+	let newchunks = getDecodeChunks(rewritten.debugdata, rewritten.state).chunks;
+	let addmismatch = (origchunk: DecodeErrorJson["chunks"][number] | null, newchunk: DecodeErrorJson["chunks"][number] | null) => {
+		mismatches.push({
+			label: (origchunk ?? newchunk)!.label.trim(),
+			offset: origchunk?.offset ?? -1,
+			original: (origchunk ? original.slice(origchunk.offset, origchunk.offset + origchunk.len).toString("hex") : ""),
+			written: (newchunk ? written.slice(newchunk.offset, newchunk.offset + newchunk.len).toString("hex") : "")
+		});
+	}
+	let i = 0, j = 0;
+	while (i < origchunks.length || j < newchunks.length) {
+		let origchunk = origchunks[i];
+		let newchunk = newchunks[j];
+		if (origchunk && newchunk && origchunk.label == newchunk.label) {
+			let origbytes = original.slice(origchunk.offset, origchunk.offset + origchunk.len);
+			let newbytes = written.slice(newchunk.offset, newchunk.offset + newchunk.len);
+			if (!origbytes.equals(newbytes)) { addmismatch(origchunk, newchunk); }
+			i++; j++;
+			continue;
+		}
+		//opcodes got dropped or added, look ahead a bit to line both files up again
+		let skiporig = origchunks.slice(i, i + roundtripLookahead).findIndex(q => q.label == newchunk?.label);
+		let skipnew = newchunks.slice(j, j + roundtripLookahead).findIndex(q => q.label == origchunk?.label);
+		if (newchunk && skiporig != -1 && (skipnew == -1 || skiporig <= skipnew)) {
+			origchunks.slice(i, i + skiporig).forEach(q => addmismatch(q, null));
+			i += skiporig;
+		} else if (origchunk && skipnew != -1) {
+			newchunks.slice(j, j + skipnew).forEach(q => addmismatch(null, q));
+			j += skipnew;
+		} else {
+			addmismatch(origchunk ?? null, newchunk ?? null);
+			if (origchunk) { i++; }
+			if (newchunk) { j++; }
+		}
+	}
+	if (mismatches.length == 0) {
+		//opcodes are identical but the bytes aren't, usually trailing data that wasn't decoded
+		mismatches.push({ label: "length", offset: Math.min(original.byteLength, written.byteLength), original: `${original.byteLength} bytes`, written: `${written.byteLength} bytes` });
+	}
+	return { success: false, error: new Error(`re-encoded file differs in ${mismatches.length} opcodes`), written, mismatches };
 }
\ No newline at end of file
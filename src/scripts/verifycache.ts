@@ -0,0 +1,156 @@
+import { CacheFileSource, CacheIndex, DirectCacheFileSource, SubFile, unpackBufferArchive, unpackSqliteBufferArchive } from "../cache";
+import { decompress } from "../cache/compression";
+import { js5ContainerLength } from "../cache/dat2cache";
+import { cacheMajors, lastLegacyBuildnr } from "../constants";
+import { crc32 } from "../libs/crc32util";
+import { ScriptFS, ScriptOutput } from "../scriptrunner";
+import { FileRange, fileRangeIncludes } from "../utils";
+import prettyJson from "json-stringify-pretty-compact";
+
+type VerifyMismatch = {
+	major: number,
+	minor: number,
+	field: "crc" | "size" | "uncompressed_crc" | "uncompressed_size" | "subfiles" | "data",
+	expected: number | string,
+	actual: number | string
+}
+
+type VerifyReport = {
+	source: string,
+	buildnr: number,
+	//crc and size can only be checked when the source exposes the raw containers
+	containerchecks: boolean,
+	groups: number,
+	passed: number,
+	missing: { major: number, minor: number, error: string }[],
+	truncated: { major: number, minor: number, expected: number, actual: number }[],
+	mismatching: VerifyMismatch[]
+}
+
+async function verifyGroup(source: CacheFileSource, meta: CacheIndex, report: VerifyReport) {
+	let { major, minor } = meta;
+	let errcount = report.truncated.length + report.mismatching.length;
+	let mismatch = (field: VerifyMismatch["field"], expected: number | string, actual: number | string) => {
+		report.mismatching.push({ major, minor, field, expected, actual });
+	}
+	let islegacy = source.getBuildNr() <= lastLegacyBuildnr;
+
+	//sources return the part that could be read if the file is truncated or its sector chain is broken
+	let raw: Buffer | null;
+	try {
+		raw = await source.getRawContainer(major, minor);
+	} catch (e) {
+		report.missing.push({ major, minor, error: (e as Error).message });
+		return;
+	}
+
+	let files: SubFile[];
+	if (raw) {
+		report.containerchecks = true;
+		//nxt containers have no compressed length in their header and no version trailer
+		let isnxt = raw.byteLength >= 1 && raw.readUInt8(0) == 0x5a;
+		let length = (isnxt ? raw.byteLength : raw.byteLength >= 5 ? js5ContainerLength(raw) : 5);
+		if (raw.byteLength < length) {
+			report.truncated.push({ major, minor, expected: length, actual: raw.byteLength });
+			return;
+		}
+		//the index crc and size are of the js5 container, the zlb blobs in jcache don't match them
+		//(sqlite.ts notes the stored row crc is off as well), so only the decompressed data is checked there
+		if (!isnxt) {
+			let crc = crc32(raw, 0, 0, length);
+			if (crc != meta.crc) { mismatch("crc", meta.crc, crc); }
+			if (meta.size && length != meta.size) { mismatch("size", meta.size, length); }
+		}
+
+		let file: Buffer;
+		try {
+			let key = (source instanceof DirectCacheFileSource ? source.getXteaKey(major, minor) : undefined);
+			file = decompress(raw.slice(0, length), key);
+		} catch (e) {
+			mismatch("data", "decompressable container", (e as Error).message);
+			return;
+		}
+		if (meta.uncompressed_crc) {
+			let uncompressedcrc = crc32(file);
+			if (uncompressedcrc != meta.uncompressed_crc) { mismatch("uncompressed_crc", meta.uncompressed_crc, uncompressedcrc); }
+		}
+		if (meta.uncompressed_size && file.byteLength != meta.uncompressed_size) {
+			mismatch("uncompressed_size", meta.uncompressed_size, file.byteLength);
+		}
+		try {
+			//jcache groups use the sqlite archive layout instead of the network one
+			files = (isnxt ? unpackSqliteBufferArchive : unpackBufferArchive)(file, meta.subindices, meta.subnames);
+		} catch (e) {
+			mismatch("subfiles", meta.subindexcount, (e as Error).message);
+			return;
+		}
+	} else {
+		try {
+			files = await source.getFileArchive(meta);
+		} catch (e) {
+			let message = (e as Error).message;
+			if (message.match(/not found|doesn't exist/)) {
+				report.missing.push({ major, minor, error: message });
+			} else {
+				mismatch("data", "readable group", message);
+			}
+			return;
+		}
+	}
+
+	//legacy archives don't list their subfiles in the index
+	if (!islegacy) {
+		if (files.length != meta.subindexcount) {
+			mismatch("subfiles", meta.subindexcount, files.length);
+		} else if (files.some((q, i) => q.fileid != meta.subindices[i])) {
+			mismatch("subfiles", meta.subindices.join(","), files.map(q => q.fileid).join(","));
+		}
+	}
+	if (report.truncated.length + report.mismatching.length == errcount) {
+		report.passed++;
+	}
+}
+
+export async function verifyCache(output: ScriptOutput, outdir: ScriptFS, source: CacheFileSource, ranges: FileRange[]) {
+	let report: VerifyReport = {
+		source: source.getCacheMeta().name,
+		buildnr: source.getBuildNr(),
+		containerchecks: false,
+		groups: 0,
+		passed: 0,
+		missing: [],
+		truncated: [],
+		mismatching: []
+	};
+
+	let rootindex = await source.getCacheIndex(cacheMajors.index);
+	for (let majorindex of rootindex) {
+		if (!majorindex) { continue; }
+		if (output.state != "running") { break; }
+		let major = majorindex.minor;
+		if (!ranges.some(q => major >= q.start[0] && major <= q.end[0])) { continue; }
+		let index: CacheIndex[];
+		try {
+			index = await source.getCacheIndex(major);
+		} catch (e) {
+			report.missing.push({ major: cacheMajors.index, minor: major, error: (e as Error).message });
+			continue;
+		}
+		let before = report.groups - report.passed;
+		for (let meta of index) {
+			if (!meta) { continue; }
+			if (output.state != "running") { break; }
+			if (!fileRangeIncludes(ranges, major, meta.minor)) { continue; }
+			report.groups++;
+			await verifyGroup(source, meta, report);
+		}
+		output.log(`verified major ${major}, ${report.groups - report.passed - before} problems`);
+	}
+
+	output.log(`${report.passed}/${report.groups} groups passed, ${report.missing.length} missing, ${report.truncated.length} truncated, ${report.mismatching.length} mismatches`);
+	if (!report.containerchecks) {
+		output.log("source does not expose raw containers, crc and size fields were not checked");
+	}
+	await outdir.writeFile("verify.json", prettyJson(report));
+	return report;
+}
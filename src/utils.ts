@@ -68,6 +68,14 @@ export function stringToMapArea(str: string) {
 	return { x, z, xsize, zsize };
 }
 
+export function fileRangeIncludes(ranges: FileRange[], major: number, minor: number) {
+	return ranges.some(q =>
+		major >= q.start[0] && major <= q.end[0]
+		&& (major != q.start[0] || minor >= q.start[1])
+		&& (major != q.end[0] || minor <= q.end[1])
+	);
+}
+
 export function stringToFileRange(str: string) {
 	let parts = str.split(",");
 	let ranges = parts.map<FileRange>(q => {
@@ -349,6 +357,25 @@ export function ushortToHalf(bytes: number) {
 	return -res;
 }
 
+//inverse of ushortToHalf
+export function halfToUshort(value: number) {
+	let sign = (value < 0 ? 0x8000 : 0);
+	value = Math.abs(value);
+	let bits: number;
+	if (value >= 65520) {
+		bits = 0x7c00;
+	} else if (value < Math.pow(2, -14)) {
+		//denormals, scaled the same way ushortToHalf reads them
+		bits = Math.min(0x3ff, Math.round(value * Math.pow(2, 25)));
+	} else {
+		let exponent = Math.floor(Math.log2(value));
+		let mantissa = Math.round((value / Math.pow(2, exponent) - 1) * 1024);
+		if (mantissa >= 1024) { exponent++; mantissa = 0; }
+		bits = ((exponent + 15) << 10) | mantissa;
+	}
+	return flipEndian16(sign | bits);
+}
+
 // https://stackoverflow.com/a/9493060
 export function HSL2RGBfloat(hsl: number[]): [number, number, number] {
 	var h = hsl[0];
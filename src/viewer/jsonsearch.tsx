@@ -5,6 +5,7 @@ import { InputCommitted, StringInput, JsonDisplay, IdInput, LabeledInput } from
 import { JSONSchema6Definition, JSONSchema6, JSONSchema6TypeName } from "json-schema";
 import { cacheFileJsonModes } from "../scripts/filetypes";
 import { UIContext, UIContextReady } from "./maincomponents";
+import { enumReferenceInfo, paramReferenceInfo, ParamReference, EnumReference } from "../scripts/configrefs";
 
 function ModalFrame(p: { children: React.ReactNode, title: React.ReactNode, maxWidth: string, onClose: () => void }) {
 	return (
@@ -78,6 +79,65 @@ export function JsonSearchPreview(p: { mode: keyof typeof cacheFileJsonModes, ca
 	)
 }
 
+export type ConfigReferenceSearch = { type: "param" | "enum", id: number };
+
+export function ConfigReferences(p: { cache: EngineCache, initial: ConfigReferenceSearch | null, onChange: (search: ConfigReferenceSearch) => void }) {
+	const [search, setSearch] = React.useState<ConfigReferenceSearch | null>(p.initial);
+	const [scripts, setScripts] = React.useState(false);
+	const [info, setInfo] = React.useState<{ references: (ParamReference | EnumReference)[] } | null>(null);
+	const [status, setStatus] = React.useState("");
+
+	React.useEffect(() => {
+		if (!search) { return; }
+		let cancelled = false;
+		setStatus(scripts ? "Indexing configs and clientscripts..." : "Indexing configs...");
+		(async () => {
+			let index = await p.cache.getConfigReferences(scripts);
+			let res = (search.type == "param" ? paramReferenceInfo(index, search.id) : await enumReferenceInfo(index, p.cache, search.id));
+			if (cancelled) { return; }
+			setInfo(res);
+			setStatus(`${res.references.length} references`);
+		})().catch(e => {
+			if (cancelled) { return; }
+			setInfo(null);
+			setStatus(`Failed to load ${search.type} ${search.id}: ${e.message}`);
+		});
+		return () => { cancelled = true; }
+	}, [search?.type, search?.id, scripts, p.cache]);
+
+	const submit = (v: ConfigReferenceSearch) => {
+		setSearch(v);
+		p.onChange(v);
+	}
+	const type = search?.type ?? "param";
+
+	return (
+		<React.Fragment>
+			<IdInput onChange={id => submit({ type, id })} initialid={search?.id} />
+			<div>
+				<label><input type="radio" name="reftype" checked={type == "param"} onChange={e => submit({ type: "param", id: search?.id ?? 0 })} />Param</label>
+				<label><input type="radio" name="reftype" checked={type == "enum"} onChange={e => submit({ type: "enum", id: search?.id ?? 0 })} />Enum</label>
+				<label><input type="checkbox" checked={scripts} onChange={e => setScripts(e.currentTarget.checked)} />Include clientscripts</label>
+			</div>
+			{!search && (
+				<React.Fragment>
+					<p>Enter a param or enum id.</p>
+					<p>Lists all items, npcs, locs and structs that set a param, or all configs and scripts that refer to an enum.</p>
+				</React.Fragment>
+			)}
+			<div>{status}</div>
+			{info && (
+				<div className="mv-sidebar-scroll">
+					<JsonDisplay obj={{ ...info, references: undefined }} />
+					{info.references.slice(0, 1000).map((q, i) => (
+						<div key={i}>{q.type} {q.id} - {"value" in q ? q.value : q.via}</div>
+					))}
+				</div>
+			)}
+		</React.Fragment>
+	)
+}
+
 export type JsonSearchFilter = { path: string[], search: string };
 
 export function JsonSearch(p: { mode: keyof typeof cacheFileJsonModes, cache: EngineCache, onSelect: (id: number, obj: object) => void, initialFilters: JsonSearchFilter[] }) {
@@ -37,7 +37,8 @@ export type SavedCacheSource = {
 	blobs: Record<string, Blob>
 } | {
 	type: "openrs2",
-	cachename: string
+	cachename: string,
+	endpoint?: string
 } | {
 	type: "autofs",
 	location: string,
@@ -73,7 +74,7 @@ export async function downloadStream(name: string, stream: ReadableStream) {
 	}
 }
 
-function OpenRs2IdSelector(p: { initialid: number, onSelect: (id: number) => void }) {
+function OpenRs2IdSelector(p: { initialid: number, endpoint?: string, onSelect: (id: number) => void }) {
 	let [relevantcaches, setrelevantcaches] = React.useState<Openrs2CacheMeta[] | null>(null);
 	let [loading, setLoading] = React.useState(false);
 	let [relevantonly, setrelevantonly] = React.useState(true);
@@ -83,8 +84,8 @@ function OpenRs2IdSelector(p: { initialid: number, onSelect: (id: number) => voi
 
 	let openselector = React.useCallback(async () => {
 		setLoading(true);
-		setrelevantcaches(await validOpenrs2Caches());
-	}, []);
+		setrelevantcaches(await validOpenrs2Caches(p.endpoint));
+	}, [p.endpoint]);
 
 	let games: string[] = [];
 	let years: string[] = [];
@@ -113,7 +114,7 @@ function OpenRs2IdSelector(p: { initialid: number, onSelect: (id: number) => voi
 		if (id > 0) {
 			p.onSelect(id);
 		} else {
-			let relevantcaches = await validOpenrs2Caches();
+			let relevantcaches = await validOpenrs2Caches(p.endpoint);
 			p.onSelect(relevantcaches[-id].id);
 		}
 	}
@@ -171,11 +172,12 @@ function OpenRs2IdSelector(p: { initialid: number, onSelect: (id: number) => voi
 	)
 }
 
-export class CacheSelector extends React.Component<{ onOpen: (c: SavedCacheSource) => void, noReopen?: boolean }, { lastFolderOpen: FileSystemDirectoryHandle | null }>{
+export class CacheSelector extends React.Component<{ onOpen: (c: SavedCacheSource) => void, noReopen?: boolean }, { lastFolderOpen: FileSystemDirectoryHandle | null, openrs2Endpoint: string }>{
 	constructor(p) {
 		super(p);
 		this.state = {
-			lastFolderOpen: null
+			lastFolderOpen: null,
+			openrs2Endpoint: localStorage.rsmv_openrs2endpoint ?? ""
 		};
 
 		if (!this.props.noReopen) {
@@ -272,7 +274,14 @@ export class CacheSelector extends React.Component<{ onOpen: (c: SavedCacheSourc
 
 	@boundMethod
 	openOpenrs2Cache(cachename: number) {
-		this.props.onOpen({ type: "openrs2", cachename: cachename + "" });
+		this.props.onOpen({ type: "openrs2", cachename: cachename + "", endpoint: this.state.openrs2Endpoint || undefined });
+	}
+
+	@boundMethod
+	setOpenrs2Endpoint(endpoint: string) {
+		endpoint = endpoint.trim().replace(/\/$/, "");
+		localStorage.rsmv_openrs2endpoint = endpoint;
+		this.setState({ openrs2Endpoint: endpoint });
 	}
 
 	render() {
@@ -297,7 +306,9 @@ export class CacheSelector extends React.Component<{ onOpen: (c: SavedCacheSourc
 				{!this.props.noReopen && this.state.lastFolderOpen && <input type="button" className="sub-btn" onClick={this.clickReopen} value={`Reopen ${this.state.lastFolderOpen.name}`} />}
 				<h2>Historical caches</h2>
 				<p>Enter any valid cache id from <a target="_blank" href="https://archive.openrs2.org/">OpenRS2</a>. Entering 0 will load the latest RS3 cache, negative values will load previous caches.</p>
-				<OpenRs2IdSelector initialid={0} onSelect={this.openOpenrs2Cache} />
+				<p>Self-hosted archives (see the mirror command) can be used by entering their address here, leave empty to use OpenRS2.</p>
+				<StringInput initialid={this.state.openrs2Endpoint} onChange={this.setOpenrs2Endpoint} />
+				<OpenRs2IdSelector key={this.state.openrs2Endpoint} initialid={0} endpoint={this.state.openrs2Endpoint || undefined} onSelect={this.openOpenrs2Cache} />
 			</React.Fragment>
 		);
 	}
@@ -411,7 +422,7 @@ export async function openSavedCache(source: SavedCacheSource, remember: boolean
 		}
 	}
 	if (source.type == "openrs2") {
-		cache = await Openrs2CacheSource.fromId(+source.cachename);
+		cache = await Openrs2CacheSource.fromId(+source.cachename, source.endpoint);
 	}
 	if (hasElectrion && source.type == "autofs") {
 		let fs = new CLIScriptFS(source.location);
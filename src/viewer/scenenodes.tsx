@@ -8,7 +8,7 @@ import { cacheMajors } from "../constants";
 import * as React from "react";
 import classNames from "classnames";
 import { appearanceUrl, avatarStringToBytes, bytesToAvatarString, EquipCustomization, EquipSlot, slotNames, slotToKitFemale, slotToKitMale, writeAvatar } from "../3d/avatar";
-import { ThreeJsRendererEvents, highlightModelGroup, ThreeJsSceneElement, ThreeJsSceneElementSource, exportThreeJsGltf, exportThreeJsStl, RenderCameraMode, ThreeJsRenderer } from "./threejsrender";
+import { ThreeJsRendererEvents, highlightModelGroup, ThreeJsSceneElement, ThreeJsSceneElementSource, exportThreeJsGltf, exportThreeJsStl, exportThreeJsObj, exportThreeJsPly, RenderCameraMode, ThreeJsRenderer } from "./threejsrender";
 import { cacheFileJsonModes, cacheFileDecodeModes, cacheFileDecodeGroups } from "../scripts/filetypes";
 import { defaultTestDecodeOpts, testDecode } from "../scripts/testdecode";
 import { UIScriptOutput, OutputUI, useForceUpdate, VR360View, UIScriptFiles, UIScriptFS, DomWrap, UIScriptConsole } from "./scriptsui";
@@ -16,7 +16,7 @@ import { CacheSelector, downloadBlob, openSavedCache, SavedCacheSource, UIContex
 import { tiledimensions } from "../3d/mapsquare";
 import { runMapRender } from "../map";
 import { diffCaches, FileEdit } from "../scripts/cachediff";
-import { selectEntity, showModal } from "./jsonsearch";
+import { selectEntity, showModal, ConfigReferences } from "./jsonsearch";
 import { drawTexture, findImageBounds, makeImageData } from "../imgutils";
 import { avataroverrides } from "../../generated/avataroverrides";
 import { InputCommitted, StringInput, JsonDisplay, IdInput, LabeledInput, TabStrip, IdInputSearch, CanvasView, PasteButton, CopyButton } from "./commoncontrols";
@@ -39,7 +39,7 @@ import * as cmdts from "cmd-ts";
 import * as commentjson from "comment-json";
 
 
-type LookupMode = "model" | "item" | "npc" | "object" | "material" | "map" | "avatar" | "spotanim" | "scenario" | "scripts";
+type LookupMode = "model" | "item" | "npc" | "object" | "material" | "map" | "avatar" | "spotanim" | "scenario" | "scripts" | "refs";
 
 type NumPair = [number, number];
 
@@ -78,7 +78,8 @@ export function ModelBrowser(p: { ctx: UIContext }) {
 		material: "Material",
 		spotanim: "Spotanim",
 		scenario: "Scenario",
-		scripts: "Scripts"
+		scripts: "Scripts",
+		refs: "Refs"
 	}
 
 	let ModeComp = LookupModeComponentMap[state.mode];
@@ -121,6 +122,18 @@ function ScenarioActionControl(p: { action: ScenarioAction, comp: ScenarioCompon
 				</div>
 			);
 		}
+		case "animlayer":
+		case "animcrossfade":
+		case "animstop": {
+			return (
+				<div style={gridstyle(2)}>
+					<span>{p.action.type} {targetname}</span>
+					<InputCommitted type="number" value={action.animid} onChange={e => p.onChange({ ...action, animid: +e.currentTarget.value })} />
+					<InputCommitted type="number" value={action.fade} title="fade (ms)" onChange={e => p.onChange({ ...action, fade: +e.currentTarget.value })} />
+					{remove}
+				</div>
+			);
+		}
 		case "delay": {
 			return (
 				<div style={gridstyle(1)}>
@@ -408,6 +421,12 @@ type ScenarioAction = {
 	target: number,
 	animid: number,
 	anims: Record<string, number>
+} | {
+	//plays on top of, blends to or stops a layered animation, fade is in ms
+	type: "animlayer" | "animcrossfade" | "animstop",
+	target: number,
+	animid: number,
+	fade: number
 } | {
 	type: "delay",
 	target: -1,
@@ -539,6 +558,11 @@ export class SceneScenario extends React.Component<LookupModeProps, ScenarioInte
 			case "anim":
 				action = { type: "anim", target: this.state.addActionTarget, animid: 0 };
 				break;
+			case "animlayer":
+			case "animcrossfade":
+			case "animstop":
+				action = { type: this.state.addActionType, target: this.state.addActionTarget, animid: 0, fade: 200 };
+				break;
 			case "delay":
 				action = { type: "delay", target: -1, duration: 0 };
 				break;
@@ -637,7 +661,7 @@ export class SceneScenario extends React.Component<LookupModeProps, ScenarioInte
 	editAction(index: number, newaction: ScenarioAction | null) {
 		let actions = this.state.actions.slice();
 
-		if (newaction?.type == "anim" || newaction?.type == "animset") {
+		if (newaction?.type == "anim" || newaction?.type == "animset" || newaction?.type == "animlayer" || newaction?.type == "animcrossfade") {
 			let model = this.modelIdToModel(newaction.target);
 			if (model instanceof RSModel) {
 				model.loadAnimation(newaction.animid);
@@ -701,6 +725,27 @@ export class SceneScenario extends React.Component<LookupModeProps, ScenarioInte
 					}
 					break;
 				}
+				case "animlayer": {
+					let model = this.modelIdToModel(action.target);
+					if (model instanceof RSModel) {
+						model.addAnimationLayer(action.animid, action.fade / 1000);
+					}
+					break;
+				}
+				case "animcrossfade": {
+					let model = this.modelIdToModel(action.target);
+					if (model instanceof RSModel) {
+						model.crossfadeAnimation(action.animid, action.fade / 1000);
+					}
+					break;
+				}
+				case "animstop": {
+					let model = this.modelIdToModel(action.target);
+					if (model instanceof RSModel) {
+						model.stopAnimationLayer(action.animid, action.fade / 1000);
+					}
+					break;
+				}
 				case "location": {
 					let model = this.modelIdToModel(action.target);
 					let groundy = getTileHeight(this.mapgrid, action.x + (this.mapoffset?.x ?? 0), action.z + (this.mapoffset?.z ?? 0), action.level);
@@ -778,6 +823,9 @@ export class SceneScenario extends React.Component<LookupModeProps, ScenarioInte
 						<select value={this.state.addActionType} onChange={e => this.setState({ addActionType: e.currentTarget.value as any })}>
 							<option value="location">Location</option>
 							<option value="anim">Anim</option>
+							<option value="animlayer">Anim layer</option>
+							<option value="animcrossfade">Anim crossfade</option>
+							<option value="animstop">Anim stop</option>
 							<option value="delay">Delay</option>
 							<option value="visibility">Visibility</option>
 						</select>
@@ -903,6 +951,7 @@ function ScenePlayer(p: LookupModeProps) {
 				</LabeledInput>
 			)}
 			{data && <label><input type="checkbox" checked={head} onChange={oncheck} />Head</label>}
+			{data && <ModelAnimsetExport model={model} anims={data.anims} />}
 			<div className="mv-sidebar-scroll">
 				{data && <h2>Slots</h2>}
 				<div style={{ userSelect: "text" }}>
@@ -1054,7 +1103,7 @@ const exportimgsizes: ExportImgSize[] = [
 ]
 
 function ExportSceneMenu(p: { ctx: UIContextReady, renderopts: ThreeJsSceneElement["options"] }) {
-	let [tab, settab] = React.useState<"img" | "gltf" | "stl" | "none">("none");
+	let [tab, settab] = React.useState<"img" | "gltf" | "stl" | "obj" | "ply" | "none">("none");
 	let [img, setimg] = React.useState<{ cnv: HTMLCanvasElement, data: ImageData } | null>(null);
 	let [imgsize, setimgsize] = React.useState<ExportImgSize>(exportimgsizes.find(q => q.mode == p.renderopts!.camMode) ?? exportimgsizes[0]);
 	let [cropimg, setcropimg] = React.useState(true);
@@ -1111,6 +1160,18 @@ function ExportSceneMenu(p: { ctx: UIContextReady, renderopts: ThreeJsSceneEleme
 		downloadBlob("model.stl", new Blob([file]));
 	}
 
+	let saveObj = async () => {
+		let files = await exportThreeJsObj(p.ctx.renderer.getModelNode());
+		for (let file of files) {
+			downloadBlob(file.name, new Blob([file.data]));
+		}
+	}
+
+	let savePly = async () => {
+		let file = exportThreeJsPly(p.ctx.renderer.getModelNode());
+		downloadBlob("model.ply", new Blob([file]));
+	}
+
 	let clicktab = (v: typeof tab) => {
 		settab(v);
 		if (v == "img") { changeImg(cropimg); }
@@ -1127,7 +1188,7 @@ function ExportSceneMenu(p: { ctx: UIContextReady, renderopts: ThreeJsSceneEleme
 
 	return (
 		<div className="mv-inset">
-			<TabStrip value={tab} tabs={{ gltf: "GLTF", stl: "STL", img: "image" }} onChange={clicktab as any} />
+			<TabStrip value={tab} tabs={{ gltf: "GLTF", obj: "OBJ", ply: "PLY", stl: "STL", img: "image" }} onChange={clicktab as any} />
 			{tab == "img" && (
 				<React.Fragment>
 					<div style={{ display: "grid", gridTemplateColumns: "1fr minmax(0,1fr)" }}>
@@ -1159,6 +1220,18 @@ function ExportSceneMenu(p: { ctx: UIContextReady, renderopts: ThreeJsSceneEleme
 					<input style={{ width: "100%" }} type="button" className="sub-btn" value="Save" onClick={saveStl} />
 				</React.Fragment>
 			)}
+			{tab == "obj" && (
+				<React.Fragment>
+					<p>OBJ is supported by almost every 3d tool. This saves an .obj file with a .mtl material file and a png for each texture, keep them in the same folder. Vertex colors are included but animations are lost.</p>
+					<input style={{ width: "100%" }} type="button" className="sub-btn" value="Save" onClick={saveObj} />
+				</React.Fragment>
+			)}
+			{tab == "ply" && (
+				<React.Fragment>
+					<p>PLY stores the shape of the model with vertex colors and transparency. Textures and animations will be lost.</p>
+					<input style={{ width: "100%" }} type="button" className="sub-btn" value="Save" onClick={savePly} />
+				</React.Fragment>
+			)}
 			{tab == "none" && (
 				<p>Select an export type</p>
 			)}
@@ -1174,6 +1247,7 @@ export function RendererControls(p: { ctx: UIContext }) {
 	let [showexport, setshowexport] = React.useState(false);
 	let [hideFog, sethidefog] = React.useState(true);
 	let [hideFloor, sethidefloor] = React.useState(false);
+	let [particles, setparticles] = React.useState(!!p.ctx.sceneCache?.particles);
 	let [camMode, setcammode] = React.useState<"standard" | "vr360" | "topdown">("standard");
 	let [camControls, setcamcontrols] = React.useState<"free" | "world">("free");
 
@@ -1196,6 +1270,12 @@ export function RendererControls(p: { ctx: UIContext }) {
 		}
 	}, [render]);
 
+	//only affects models that are loaded after changing it
+	const toggleParticles = (enabled: boolean) => {
+		if (p.ctx.sceneCache) { p.ctx.sceneCache.particles = enabled; }
+		setparticles(enabled);
+	}
+
 	const toggleSettings = React.useCallback(() => {
 		localStorage.rsmv_showsettings = "" + !showsettings;
 		setshowsettings(!showsettings);
@@ -1212,6 +1292,7 @@ export function RendererControls(p: { ctx: UIContext }) {
 					<label><input type="checkbox" checked={hideFog} onChange={e => sethidefog(e.currentTarget.checked)} />Hide fog</label>
 					<label><input type="checkbox" checked={hideFloor} onChange={e => sethidefloor(e.currentTarget.checked)} />Hide floor</label>
 					<label><input type="checkbox" checked={camControls == "world"} onChange={e => setcamcontrols(e.currentTarget.checked ? "world" : "free")} />Flat panning</label>
+					<label><input type="checkbox" checked={particles} onChange={e => toggleParticles(e.currentTarget.checked)} />Particles (experimental)</label>
 					<label>
 						<select value={camMode} onChange={e => setcammode(e.currentTarget.value as any)}>
 							<option value="standard">Standard camera</option>
@@ -1283,6 +1364,52 @@ function useAsyncModelData<ID, T>(ctx: UIContextReady | null, getter: (cache: Th
 	return [visible, loadedModel, loadedId, setter] as [state: SimpleModelInfo<T> | null, model: RSModel | null, id: ID | null, setter: (id: ID) => void];
 }
 
+function ModelLodControl(p: { model: RSModel | null }) {
+	const forceUpdate = useForceUpdate();
+	React.useEffect(() => {
+		if (!p.model) { return; }
+		let model = p.model;
+		model.on("lodchanged", forceUpdate);
+		return () => model.off("lodchanged", forceUpdate);
+	}, [p.model]);
+	if (!p.model?.loaded) { return null; }
+	let model = p.model;
+	let counts = model.getLodTriangleCounts();
+	return (
+		<LabeledInput label="Detail">
+			<select onChange={e => { model.setLodLevel(+e.currentTarget.value); forceUpdate(); }} value={model.lodLevel}>
+				<option value={-1}>Auto (lod {model.activeLodLevel}, {counts[model.activeLodLevel]} tris)</option>
+				{counts.map((q, i) => <option key={i} value={i}>Lod {i} - {q} tris</option>)}
+			</select>
+		</LabeledInput>
+	);
+}
+
+function ModelAnimsetExport(p: { model: RSModel | null, anims: Record<string, number> }) {
+	let [busy, setbusy] = React.useState(false);
+	let [errors, seterrors] = React.useState<string[]>([]);
+	let animcount = Object.values(p.anims).filter(q => q != -1).length;
+	if (!p.model || animcount == 0) { return null; }
+	let model = p.model;
+	let save = async () => {
+		setbusy(true);
+		try {
+			let { clips, errors } = await model.loadAnimationSet(p.anims);
+			seterrors(errors);
+			let file = await exportThreeJsGltf(model.rootnode, clips);
+			downloadBlob("model.glb", new Blob([file]));
+		} finally {
+			setbusy(false);
+		}
+	}
+	return (
+		<React.Fragment>
+			<input type="button" className="sub-btn" value={busy ? "Exporting..." : `Export GLTF with all ${animcount} animations`} disabled={busy} onClick={save} />
+			{errors.length != 0 && <div className="mv-errortext" onClick={e => seterrors([])}>Skipped animations: {errors.join(", ")}</div>}
+		</React.Fragment>
+	);
+}
+
 type MaterialIshId = { mode: "material" | "underlay" | "overlay" | "texture", id: number };
 async function materialIshToModel(sceneCache: ThreejsSceneCache, reqid: MaterialIshId) {
 	let matid = -1;
@@ -1397,6 +1524,7 @@ function SceneRawModel(p: LookupModeProps) {
 					<p>This lookup shows raw models on their own.</p>
 				</React.Fragment>
 			)}
+			<ModelLodControl model={model} />
 			{data && (
 				<div className="mv-sidebar-scroll">
 					<JsonDisplay obj={{ ...data?.info.modeldata, meshes: undefined }} />
@@ -1422,6 +1550,8 @@ function SceneLocation(p: LookupModeProps) {
 				</React.Fragment>
 			)}
 			{anim != -1 && <label><input type="checkbox" checked={!model || model.targetAnimId == anim} onChange={e => { model?.setAnimation(e.currentTarget.checked ? anim : -1); forceUpdate(); }} />Animate</label>}
+			<ModelLodControl model={model} />
+			{data && <ModelAnimsetExport model={model} anims={data.anims} />}
 			<div className="mv-sidebar-scroll">
 				<JsonDisplay obj={data?.info} />
 			</div>
@@ -1559,6 +1689,7 @@ function SceneItem(p: LookupModeProps) {
 			{id == null && (
 				<p>Enter an item id or search by name.</p>
 			)}
+			<ModelLodControl model={model} />
 			<div className="mv-sidebar-scroll">
 				<input type="button" className="sub-btn" value={enablecam ? "exit" : "Icon Camera"} onClick={e => setenablecam(!enablecam)} />
 				{enablecam && p.ctx && <ItemCameraMode ctx={p.ctx} meta={data?.info} centery={centery} />}
@@ -1589,6 +1720,8 @@ function SceneNpc(p: LookupModeProps) {
 					</select>
 				</LabeledInput>
 			)}
+			<ModelLodControl model={model} />
+			{data && <ModelAnimsetExport model={model} anims={data.anims} />}
 			<div className="mv-sidebar-scroll">
 				<JsonDisplay obj={data?.info} />
 			</div>
@@ -1608,6 +1741,8 @@ function SceneSpotAnim(p: LookupModeProps) {
 					<p>Spotanims are visual effects that are usually temporary and require an extra model that is not part of any loc, npc or player.</p>
 				</React.Fragment>
 			)}
+			<ModelLodControl model={model} />
+			{data && <ModelAnimsetExport model={model} anims={data.anims} />}
 			<div className="mv-sidebar-scroll">
 				<JsonDisplay obj={data?.info} />
 			</div>
@@ -2359,11 +2494,12 @@ function CacheDiffScript(p: UiScriptProps) {
 }
 
 function TestFilesScript(p: UiScriptProps) {
-	let [initmode, initrange, initdumpall, initordersize] = p.initialArgs.split(":");
+	let [initmode, initrange, initdumpall, initordersize, initroundtrip] = p.initialArgs.split(":");
 	let [mode, setMode] = React.useState(initmode || "");
 	let [range, setRange] = React.useState(initrange || "");
 	let [dumpall, setDumpall] = React.useState(initdumpall != "false");
 	let [ordersize, setOrdersize] = React.useState(initordersize == "true");
+	let [roundtrip, setRoundtrip] = React.useState(initroundtrip == "true");
 	let [customparser, setCustomparser] = React.useState("");
 
 	let run = () => {
@@ -2375,12 +2511,13 @@ function TestFilesScript(p: UiScriptProps) {
 		opts.maxerrs = 50000;
 		opts.orderBySize = ordersize;
 		opts.dumpall = dumpall;
+		opts.roundtrip = roundtrip;
 		if (customparser) {
 			modeobj = { ...modeobj };
 			modeobj.parser = FileParser.fromJson(customparser);
 		}
 		output.run(testDecode, outdir, p.source, modeobj, stringToFileRange(range), opts);
-		p.onRun(output, `${mode}:${range}:${dumpall}:${ordersize}`);
+		p.onRun(output, `${mode}:${range}:${dumpall}:${ordersize}:${roundtrip}`);
 	}
 
 	let customparserUi = React.useCallback(() => {
@@ -2407,6 +2544,7 @@ function TestFilesScript(p: UiScriptProps) {
 			</LabeledInput>
 			<div><label><input type="checkbox" checked={ordersize} onChange={e => setOrdersize(e.currentTarget.checked)} />Order by size (puts everything in mem)</label></div>
 			<div><label><input type="checkbox" checked={dumpall} onChange={e => setDumpall(e.currentTarget.checked)} />Output successes as well</label></div>
+			<div><label><input type="checkbox" checked={roundtrip} onChange={e => setRoundtrip(e.currentTarget.checked)} />Check that re-encoding results in the original bytes</label></div>
 			<br />
 			<input type="button" className="sub-btn" value="Edit parser" onClick={customparserUi} />
 			{customparser && <input type="button" className="sub-btn" value="Reset" onClick={() => setCustomparser("")} />}
@@ -2497,6 +2635,19 @@ function ScriptsUI(p: LookupModeProps) {
 	);
 }
 
+function SceneConfigReferences(p: LookupModeProps) {
+	let initial = checkObject(p.initialId, { type: "string", id: "number" });
+	let onChange = React.useCallback((search: { type: string, id: number }) => {
+		localStorage.rsmv_lastsearch = JSON.stringify(search);
+	}, []);
+	if (!p.ctx) {
+		return <p>Waiting for cache to load</p>;
+	}
+	return (
+		<ConfigReferences cache={p.ctx.sceneCache.engine} initial={initial && (initial.type == "enum" || initial.type == "param") ? { type: initial.type, id: initial.id } : null} onChange={onChange} />
+	);
+}
+
 type LookupModeProps = { initialId: unknown, ctx: UIContextReady | null, partial: UIContext }
 
 const LookupModeComponentMap: Record<LookupMode, React.ComponentType<LookupModeProps>> = {
@@ -2509,5 +2660,6 @@ const LookupModeComponentMap: Record<LookupMode, React.ComponentType<LookupModeP
 	spotanim: SceneSpotAnim,
 	map: SceneMapModel,
 	scenario: SceneScenario,
-	scripts: ScriptsUI
+	scripts: ScriptsUI,
+	refs: SceneConfigReferences
 }
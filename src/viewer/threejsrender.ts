@@ -2,11 +2,13 @@ import * as THREE from "three";
 
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
 import { delay, TypedEmitter } from '../utils';
-import { dumpTexture, flipImage, makeImageData } from '../imgutils';
+import { dumpTexture, flipImage, makeImageData, pixelsToImageFile } from '../imgutils';
 import { boundMethod } from 'autobind-decorator';
-import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter';
+import { GLTFExporter, GLTFExporterPlugin, GLTFWriter } from 'three/examples/jsm/exporters/GLTFExporter';
 import { STLExporter } from 'three/examples/jsm/exporters/STLExporter';
 import { ModelExtras, MeshTileInfo, ClickableMesh } from '../3d/mapsquare';
+import { geometryIndexLods } from '../3d/modeltothree';
+import { ParticleEmitterNode } from '../3d/particles';
 import { AnimationClip, AnimationMixer, BufferGeometry, Camera, Clock, Color, CubeCamera, Group, Material, Mesh, MeshLambertMaterial, MeshPhongMaterial, Object3D, OrthographicCamera, PerspectiveCamera, SkinnedMesh, Texture, Vector3 } from "three";
 import { VR360Render } from "./vr360camera";
 import { SkewOrthographicCamera } from "../map";
@@ -41,6 +43,8 @@ export type ThreeJsSceneElement = {
 	modelnode?: Object3D,
 	sky?: { skybox: THREE.Object3D | null, fogColor: number[] } | null,
 	updateAnimation?: (delta: number, epochtime: number) => void,
+	//called before each frame with the lod level matching the camera distance to modelnode
+	setAutoLod?: (level: number) => void,
 	options?: {
 		hideFloor?: boolean,
 		hideFog?: boolean,
@@ -51,6 +55,9 @@ export type ThreeJsSceneElement = {
 	}
 }
 
+//camera distance in tiles at which models switch to the next lod level
+export const lodSwitchDistances = [12, 24, 48];
+
 type CameraControlMode = "free" | "world";
 type AutoFrameMode = "forced" | "continuous" | "never";
 export type RenderCameraMode = "standard" | "vr360" | "item" | "topdown";
@@ -70,6 +77,7 @@ export class ThreeJsRenderer extends TypedEmitter<ThreeJsRendererEvents>{
 
 	private sceneElements = new Set<ThreeJsSceneElementSource>();
 	private animationCallbacks = new Set<NonNullable<ThreeJsSceneElement["updateAnimation"]>>();
+	private autoLodCallbacks = new Map<Object3D, NonNullable<ThreeJsSceneElement["setAutoLod"]>>();
 	private vr360cam: VR360Render | null = null;
 	private forceAspectRatio: number | null = null;
 
@@ -239,6 +247,7 @@ export class ThreeJsRenderer extends TypedEmitter<ThreeJsRendererEvents>{
 		let autoframes: AutoFrameMode | "auto" = "auto";
 		let nodeDeleteList = new Set(this.modelnode.children);
 		this.animationCallbacks.clear();
+		this.autoLodCallbacks.clear();
 		for (let source of this.sceneElements) {
 			let elgroup = source.getSceneElements();
 			if (!Array.isArray(elgroup)) { elgroup = [elgroup]; }
@@ -247,6 +256,9 @@ export class ThreeJsRenderer extends TypedEmitter<ThreeJsRendererEvents>{
 				if (el.updateAnimation) {
 					this.animationCallbacks.add(el.updateAnimation);
 				}
+				if (el.setAutoLod && el.modelnode) {
+					this.autoLodCallbacks.set(el.modelnode, el.setAutoLod);
+				}
 				if (el.options?.hideFog) { hideFog = true; }
 				if (el.options?.hideFloor) { showfloor = false; }
 				if (el.options?.camMode) { cammode = el.options.camMode; }
@@ -404,7 +416,21 @@ export class ThreeJsRenderer extends TypedEmitter<ThreeJsRendererEvents>{
 		}
 	}
 
+	updateAutoLods(cam: THREE.Object3D) {
+		if (this.autoLodCallbacks.size == 0) { return; }
+		//distance is meaningless for orthographic cameras, always use full detail
+		let ortho = cam instanceof OrthographicCamera;
+		let campos = cam.getWorldPosition(new Vector3());
+		let nodepos = new Vector3();
+		for (let [node, cb] of this.autoLodCallbacks) {
+			let dist = (ortho ? 0 : node.getWorldPosition(nodepos).distanceTo(campos));
+			let level = lodSwitchDistances.findIndex(q => dist < q);
+			cb(level == -1 ? lodSwitchDistances.length : level);
+		}
+	}
+
 	renderScene(cam: THREE.Camera) {
+		this.updateAutoLods(cam);
 		let size = this.renderer.getRenderTarget() ?? this.renderer.getContext().canvas ?? this.canvas;
 		let aspect = size.width / size.height;
 		if (cam instanceof THREE.PerspectiveCamera && cam.aspect != aspect) {
@@ -428,6 +454,7 @@ export class ThreeJsRenderer extends TypedEmitter<ThreeJsRendererEvents>{
 	}
 
 	renderCube(render: VR360Render) {
+		this.updateAutoLods(render.cubeCamera);
 		render.cubeRenderTarget.clear(this.renderer, true, true, false);
 		if (this.skybox) {
 			render.skyCubeCamera.matrixAutoUpdate = false;
@@ -766,9 +793,147 @@ export function disposeThreeTree(node: THREE.Object3D | null) {
 	console.log("disposed scene objects", count);
 }
 
-export async function exportThreeJsGltf(node: THREE.Object3D) {
-	let exporter = new GLTFExporter();
-	let anims: AnimationClip[] = [];
+//GLTFExporter merges its buffers using FileReader, which doesn't exist in nodejs
+class NodeFileReader {
+	result: ArrayBuffer | string | null = null;
+	onloadend: (() => void) | null = null;
+	readAsArrayBuffer(blob: Blob) {
+		blob.arrayBuffer().then(buf => { this.result = buf; this.onloadend?.(); });
+	}
+	readAsDataURL(blob: Blob) {
+		blob.arrayBuffer().then(buf => { this.result = `data:${blob.type};base64,${Buffer.from(buf).toString("base64")}`; this.onloadend?.(); });
+	}
+}
+
+//installed once and left in place, removing it again would race with concurrent exports
+function ensureFileReader() {
+	if (typeof FileReader == "undefined") {
+		globalThis.FileReader = NodeFileReader as unknown as typeof FileReader;
+	}
+}
+
+//the parts of three's GLTFWriter that our plugins use, the typings only expose the plugin hooks
+type GltfImageDef = { mimeType: string, bufferView?: number };
+type GltfTextureDef = { sampler: number, source: number };
+type GltfNodeDef = {
+	name?: string,
+	mesh?: number,
+	skin?: number,
+	matrix?: number[],
+	translation?: number[],
+	rotation?: number[],
+	scale?: number[],
+	extensions?: Record<string, unknown>
+};
+type GltfWriterInternals = GLTFWriter & {
+	json: { images?: GltfImageDef[], textures?: GltfTextureDef[], nodes?: GltfNodeDef[] },
+	extensionsUsed: Record<string, boolean>,
+	nodeMap: Map<Object3D, number>,
+	pending: Promise<unknown>[],
+	cache: { textures: Map<Texture, number> },
+	processSampler(map: Texture): number,
+	processBufferViewImage(blob: Blob): Promise<number>,
+	processMesh(mesh: Mesh): number | null
+};
+type GltfPluginFactory = (writer: GLTFWriter) => GLTFExporterPlugin;
+
+//texture slots of materials that the exporter knows how to write
+const gltfTextureSlots = ["map", "emissiveMap", "normalMap", "aoMap", "metalnessMap", "roughnessMap"] as const;
+type GltfTexturedMaterial = Material & Partial<Record<typeof gltfTextureSlots[number], Texture | null>>;
+
+//the exporter draws images to a canvas before encoding them, which doesn't exist in nodejs
+//our DataTextures are encoded as png up front instead, this plugin registers them in the texture
+//cache of the writer before anything is written so the exporter uses them as-is
+function gltfDataTexturePlugin(textures: Map<Texture, Uint8Array>): GltfPluginFactory {
+	return basewriter => {
+		let writer = basewriter as GltfWriterInternals;
+		return {
+			beforeParse() {
+				for (let [texture, png] of textures) {
+					let images = writer.json.images ??= [];
+					let texturedefs = writer.json.textures ??= [];
+					let image: GltfImageDef = { mimeType: "image/png" };
+					let source = images.push(image) - 1;
+					writer.pending.push(writer.processBufferViewImage(new Blob([png], { type: "image/png" })).then(view => { image.bufferView = view; }));
+					let index = texturedefs.push({ sampler: writer.processSampler(texture), source }) - 1;
+					writer.cache.textures.set(texture, index);
+				}
+			}
+		};
+	}
+}
+
+async function encodeGltfTexture(texture: Texture) {
+	let img = makeImageData(texture.image.data.slice(), texture.image.width, texture.image.height);
+	if (texture.flipY) { flipImage(img); }
+	return pixelsToImageFile(img, "png", 1);
+}
+
+//writes the lower detail index buffers of meshes as extra nodes using the MSFT_lod extension
+//these nodes share all vertex data with the full detail mesh
+//writes the lower lods as MSFT_lod nodes, these nodes are only referenced by the extension so
+//they are written here instead of through processNode, which would add them to the skin list
+function gltfLodPlugin(basewriter: GLTFWriter): GLTFExporterPlugin {
+	let writer = basewriter as GltfWriterInternals;
+	let skinnedlods: { object: Object3D, ids: number[] }[] = [];
+	return {
+		writeNode(object: Object3D, nodeDef: GltfNodeDef) {
+			if (!(object instanceof Mesh)) { return; }
+			let lods = geometryIndexLods.get(object.geometry);
+			if (!lods) { return; }
+			let nodes = writer.json.nodes ??= [];
+			let ids: number[] = [];
+			for (let i = 1; i < lods.length; i++) {
+				let geo = new BufferGeometry();
+				for (let [name, attr] of Object.entries(object.geometry.attributes)) {
+					geo.setAttribute(name, attr as THREE.BufferAttribute);
+				}
+				geo.setIndex(lods[i]);
+				let lodmesh = new Mesh(geo, object.material);
+				lodmesh.name = `${object.name || "mesh"}_lod${i}`;
+				let mesh = writer.processMesh(lodmesh);
+				if (mesh == null) { continue; }
+				let { matrix, translation, rotation, scale } = nodeDef;
+				ids.push(nodes.push({ name: lodmesh.name, mesh, matrix, translation, rotation, scale }) - 1);
+			}
+			if (ids.length == 0) { return; }
+			if (object instanceof SkinnedMesh) { skinnedlods.push({ object, ids }); }
+			nodeDef.extensions ??= {};
+			nodeDef.extensions.MSFT_lod = { ids };
+			writer.extensionsUsed.MSFT_lod = true;
+		},
+		afterParse() {
+			//skins are written after all nodes, copy the skin of the original node
+			for (let { object, ids } of skinnedlods) {
+				let nodes = writer.json.nodes!;
+				let skin = nodes[writer.nodeMap.get(object)!].skin;
+				for (let id of ids) { nodes[id].skin = skin; }
+			}
+		}
+	};
+}
+
+//exports the animations of the scene nodes unless a list of animations is given
+export async function exportThreeJsGltf(node: THREE.Object3D, animations?: AnimationClip[]) {
+	//encode our textures first, everything after this runs synchronously so concurrent
+	//exports never see each others temporary scene edits
+	let textures = new Map<Texture, Uint8Array>();
+	let encodes: Promise<void>[] = [];
+	node.traverseVisible(node => {
+		if (!(node instanceof Mesh)) { return; }
+		for (let mat of (Array.isArray(node.material) ? node.material : [node.material]) as GltfTexturedMaterial[]) {
+			for (let slot of gltfTextureSlots) {
+				let texture = mat[slot];
+				if (!texture?.image?.data || textures.has(texture)) { continue; }
+				let tex = texture;
+				textures.set(tex, new Uint8Array());
+				encodes.push(encodeGltfTexture(tex).then(png => { textures.set(tex, png); }));
+			}
+		}
+	});
+	await Promise.all(encodes);
+
+	let anims: AnimationClip[] = animations ?? [];
 	let undolist: (() => void)[] = [];
 	let hiddenattributes = [
 		"RA_skinIndex_bone",
@@ -778,14 +943,27 @@ export async function exportThreeJsGltf(node: THREE.Object3D) {
 	];
 	//there doesn't seem to be any good way to hook the exporter, so just temporarily edit the scene
 	node.traverseVisible(node => {
-		if (node.animations) {
+		if (!animations && node.animations) {
 			anims.push(...node.animations.filter(q => q.duration != 0));
 		}
+		//particles are simulated points which gltf can't represent
+		if (node instanceof ParticleEmitterNode) {
+			node.visible = false;
+			undolist.push(() => node.visible = true);
+		}
 
 		//threejs currently bugs out with i8 normal attributes
 		//these attributes need to be padded to 4 bytes according to gltf spec but threejs doesn't
 		if (node instanceof Mesh && node.geometry instanceof BufferGeometry) {
 			let attributes = node.geometry.attributes;
+			//always export full detail as the main mesh, lower lods are added by gltfLodPlugin
+			let geo = node.geometry;
+			let lods = geometryIndexLods.get(geo);
+			if (lods && geo.index != lods[0]) {
+				let oldindex = geo.index;
+				geo.setIndex(lods[0]);
+				undolist.push(() => geo.setIndex(oldindex));
+			}
 			let normal = node.geometry.attributes.normal as THREE.BufferAttribute;
 			if (normal && normal.array instanceof Int8Array) {
 				let v = new Vector3();
@@ -810,14 +988,23 @@ export async function exportThreeJsGltf(node: THREE.Object3D) {
 			}
 		}
 	});
-	let res = await new Promise<Buffer>((resolve, reject) => {
-		exporter.parse(node, gltf => resolve(gltf as any), reject, {
-			binary: true,
-			animations: anims
+	let result: Promise<Buffer>;
+	try {
+		let exporter = new GLTFExporter();
+		exporter.register(gltfDataTexturePlugin(textures));
+		exporter.register(gltfLodPlugin);
+		ensureFileReader();
+		//the exporter reads the whole scene before its first await
+		result = new Promise<Buffer>((resolve, reject) => {
+			exporter.parse(node, gltf => resolve(gltf as any), reject, {
+				binary: true,
+				animations: anims
+			});
 		});
-	});
-	undolist.forEach(q => q());
-	return res;
+	} finally {
+		undolist.forEach(q => q());
+	}
+	return result;
 }
 
 export function exportThreeJsStl(node: THREE.Object3D) {
@@ -826,6 +1013,219 @@ export function exportThreeJsStl(node: THREE.Object3D) {
 	return Promise.resolve(new Uint8Array(res.buffer, res.byteOffset, res.byteLength));
 }
 
+export type ExportedFile = { name: string, data: Uint8Array };
+
+type FlatExportMesh = {
+	name: string,
+	material: Material | null,
+	positions: Float32Array,
+	normals: Float32Array | null,
+	uvs: Float32Array | null,
+	//rgba 0-1, only set when the material actually uses vertex colors
+	colors: Float32Array | null,
+	indices: Uint32Array
+}
+
+//flattens all visible meshes into world space for the obj and ply exporters
+//floor meshes blend atlas textures using texcoord_0-2, color_1 and color_2, this can't be expressed
+//in these formats so they get the vertex color the blend would have with white textures
+function flattenExportMeshes(node: THREE.Object3D) {
+	node.updateWorldMatrix(true, true);
+	let meshes: FlatExportMesh[] = [];
+	let vertex = new Vector3();
+	let normalmatrix = new THREE.Matrix3();
+	node.traverseVisible(obj => {
+		if (!(obj instanceof Mesh) || !(obj.geometry instanceof BufferGeometry)) { return; }
+		let geo = obj.geometry;
+		let pos = geo.getAttribute("position");
+		if (!pos) { return; }
+		let normal = geo.getAttribute("normal");
+		let uv = geo.getAttribute("uv");
+		let color = geo.getAttribute("color");
+		let floorweights = geo.getAttribute("color_1");
+		let floorusescolor = geo.getAttribute("color_2");
+		let material: Material | null = (Array.isArray(obj.material) ? obj.material[0] : obj.material) ?? null;
+		normalmatrix.getNormalMatrix(obj.matrixWorld);
+		let count = pos.count;
+
+		let positions = new Float32Array(count * 3);
+		let normals = (normal ? new Float32Array(count * 3) : null);
+		let uvs = (uv ? new Float32Array(count * 2) : null);
+		let colors = (color && (material as MeshPhongMaterial | null)?.vertexColors ? new Float32Array(count * 4) : null);
+		for (let i = 0; i < count; i++) {
+			//applies the current skeleton pose as well
+			obj.getVertexPosition(i, vertex).applyMatrix4(obj.matrixWorld).toArray(positions, i * 3);
+			if (normals) { vertex.fromBufferAttribute(normal, i).applyMatrix3(normalmatrix).normalize().toArray(normals, i * 3); }
+			if (uvs) { uvs[i * 2] = uv.getX(i); uvs[i * 2 + 1] = uv.getY(i); }
+			if (colors) {
+				colors[i * 4 + 0] = color.getX(i);
+				colors[i * 4 + 1] = color.getY(i);
+				colors[i * 4 + 2] = color.getZ(i);
+				colors[i * 4 + 3] = (color.itemSize == 4 ? color.getW(i) : 1);
+				if (floorweights && floorusescolor) {
+					//each texture layer is tinted by the vertex color when color_2 is set and shows white otherwise
+					//the remaining weight is filled with the vertex color
+					let weights = [floorweights.getX(i), floorweights.getY(i), floorweights.getZ(i)];
+					let usescolor = [floorusescolor.getX(i), floorusescolor.getY(i), floorusescolor.getZ(i)];
+					let totalweight = weights[0] + weights[1] + weights[2];
+					let whiteweight = weights.reduce((a, w, j) => a + w * (1 - usescolor[j]), 0);
+					let colorweight = (1 - totalweight) + weights.reduce((a, w, j) => a + w * usescolor[j], 0);
+					for (let j = 0; j < 3; j++) {
+						colors[i * 4 + j] = colors[i * 4 + j] * colorweight + whiteweight;
+					}
+				}
+			}
+		}
+
+		let indices = (geo.index ? Uint32Array.from(geo.index.array) : new Uint32Array(count).map((q, i) => i));
+		//the viewer mirrors the z axis, which flips the triangle winding once flattened
+		if (obj.matrixWorld.determinant() < 0) {
+			for (let i = 0; i < indices.length; i += 3) {
+				let tmp = indices[i + 1];
+				indices[i + 1] = indices[i + 2];
+				indices[i + 2] = tmp;
+			}
+		}
+		meshes.push({ name: obj.name || `mesh${meshes.length}`, material, positions, normals, uvs, colors, indices });
+	});
+	return meshes;
+}
+
+//obj with a mtl file and png textures, vertex colors are written using the common "v x y z r g b" extension
+export async function exportThreeJsObj(node: THREE.Object3D, basename = "model") {
+	let meshes = flattenExportMeshes(node);
+	let files: ExportedFile[] = [];
+	let materialnames = new Map<Material | null, string>();
+	let texturenames = new Map<Texture, string>();
+	let mtl = "";
+	let obj = `mtllib ${basename}.mtl\n`;
+	let vertexoffset = 1;
+
+	let exportTexture = async (tex: Texture | null) => {
+		if (!tex) { return null; }
+		if (!tex.image?.data) {
+			console.warn("skipped texture in export since it has no pixel data");
+			return null;
+		}
+		let name = texturenames.get(tex);
+		if (!name) {
+			name = `${basename}_tex${texturenames.size}.png`;
+			texturenames.set(tex, name);
+			let img = makeImageData(tex.image.data.slice(), tex.image.width, tex.image.height);
+			if (tex.flipY) { flipImage(img); }
+			files.push({ name, data: await pixelsToImageFile(img, "png", 1) });
+		}
+		return name;
+	}
+
+	for (let mesh of meshes) {
+		let matname = materialnames.get(mesh.material);
+		if (!matname) {
+			//named after the rs material id so the obj importer can map it back
+			let matid = mesh.material?.userData.materialId;
+			matname = (typeof matid == "number" ? `material:${matid}` : mesh.material?.name || `material${materialnames.size}`);
+			materialnames.set(mesh.material, matname);
+			let mat = mesh.material as MeshPhongMaterial | null;
+			mtl += `newmtl ${matname}\n`;
+			mtl += `Kd ${mat?.color ? mat.color.toArray().join(" ") : "1 1 1"}\n`;
+			if (mat?.transparent) { mtl += `d ${mat.opacity}\n`; }
+			let map = (mesh.uvs ? await exportTexture(mat?.map ?? null) : null);
+			if (map) {
+				mtl += `map_Kd ${map}\n`;
+				if (mat?.transparent || mat?.alphaTest) { mtl += `map_d ${map}\n`; }
+			}
+			mtl += "\n";
+		}
+
+		let count = mesh.positions.length / 3;
+		obj += `o ${mesh.name}\n`;
+		for (let i = 0; i < count; i++) {
+			obj += `v ${mesh.positions[i * 3]} ${mesh.positions[i * 3 + 1]} ${mesh.positions[i * 3 + 2]}`;
+			if (mesh.colors) { obj += ` ${mesh.colors[i * 4]} ${mesh.colors[i * 4 + 1]} ${mesh.colors[i * 4 + 2]}`; }
+			obj += "\n";
+		}
+		if (mesh.uvs) {
+			//obj has its uv origin in the bottom left
+			for (let i = 0; i < count; i++) { obj += `vt ${mesh.uvs[i * 2]} ${1 - mesh.uvs[i * 2 + 1]}\n`; }
+		}
+		if (mesh.normals) {
+			for (let i = 0; i < count; i++) { obj += `vn ${mesh.normals[i * 3]} ${mesh.normals[i * 3 + 1]} ${mesh.normals[i * 3 + 2]}\n`; }
+		}
+		obj += `usemtl ${matname}\n`;
+		let vert = (index: number) => {
+			let i = index + vertexoffset;
+			return (mesh.normals ? `${i}/${mesh.uvs ? i : ""}/${i}` : mesh.uvs ? `${i}/${i}` : `${i}`);
+		}
+		for (let i = 0; i < mesh.indices.length; i += 3) {
+			obj += `f ${vert(mesh.indices[i])} ${vert(mesh.indices[i + 1])} ${vert(mesh.indices[i + 2])}\n`;
+		}
+		vertexoffset += count;
+	}
+
+	let encoder = new TextEncoder();
+	files.unshift(
+		{ name: `${basename}.obj`, data: encoder.encode(obj) },
+		{ name: `${basename}.mtl`, data: encoder.encode(mtl) }
+	);
+	return files;
+}
+
+//binary ply with vertex colors including alpha, textures are lost
+export function exportThreeJsPly(node: THREE.Object3D) {
+	let meshes = flattenExportMeshes(node);
+	let hasnormals = meshes.some(q => q.normals);
+	let hasuvs = meshes.some(q => q.uvs);
+	let vertexcount = meshes.reduce((a, q) => a + q.positions.length / 3, 0);
+	let facecount = meshes.reduce((a, q) => a + q.indices.length / 3, 0);
+
+	let header = "ply\n"
+		+ "format binary_little_endian 1.0\n"
+		+ `element vertex ${vertexcount}\n`
+		+ "property float x\nproperty float y\nproperty float z\n"
+		+ (hasnormals ? "property float nx\nproperty float ny\nproperty float nz\n" : "")
+		+ (hasuvs ? "property float s\nproperty float t\n" : "")
+		+ "property uchar red\nproperty uchar green\nproperty uchar blue\nproperty uchar alpha\n"
+		+ `element face ${facecount}\n`
+		+ "property list uchar uint vertex_indices\n"
+		+ "end_header\n";
+	let headerbytes = new TextEncoder().encode(header);
+	let vertexsize = 4 * 3 + (hasnormals ? 4 * 3 : 0) + (hasuvs ? 4 * 2 : 0) + 4;
+	let res = new Uint8Array(headerbytes.byteLength + vertexcount * vertexsize + facecount * (1 + 3 * 4));
+	res.set(headerbytes, 0);
+	let view = new DataView(res.buffer);
+	let offset = headerbytes.byteLength;
+
+	//vertex colors can end up above 1 after the whiteweight blend
+	let tobyte = (v: number) => Math.max(0, Math.min(255, Math.round(v * 255)));
+	for (let mesh of meshes) {
+		let matcolor = (mesh.material as MeshPhongMaterial | null)?.color ?? new Color(1, 1, 1);
+		for (let i = 0; i < mesh.positions.length / 3; i++) {
+			for (let j = 0; j < 3; j++) { view.setFloat32(offset, mesh.positions[i * 3 + j], true); offset += 4; }
+			if (hasnormals) {
+				for (let j = 0; j < 3; j++) { view.setFloat32(offset, mesh.normals?.[i * 3 + j] ?? 0, true); offset += 4; }
+			}
+			if (hasuvs) {
+				view.setFloat32(offset, mesh.uvs?.[i * 2] ?? 0, true); offset += 4;
+				view.setFloat32(offset, 1 - (mesh.uvs?.[i * 2 + 1] ?? 0), true); offset += 4;
+			}
+			let rgba = (mesh.colors ? mesh.colors.subarray(i * 4, i * 4 + 4) : [1, 1, 1, 1]);
+			view.setUint8(offset++, tobyte(rgba[0] * matcolor.r));
+			view.setUint8(offset++, tobyte(rgba[1] * matcolor.g));
+			view.setUint8(offset++, tobyte(rgba[2] * matcolor.b));
+			view.setUint8(offset++, tobyte(rgba[3]));
+		}
+	}
+	let vertexoffset = 0;
+	for (let mesh of meshes) {
+		for (let i = 0; i < mesh.indices.length; i += 3) {
+			view.setUint8(offset++, 3);
+			for (let j = 0; j < 3; j++) { view.setUint32(offset, mesh.indices[i + j] + vertexoffset, true); offset += 4; }
+		}
+		vertexoffset += mesh.positions.length / 3;
+	}
+	return res;
+}
+
 export function highlightModelGroup(vertexgroups: { start: number, end: number, mesh: THREE.Mesh }[]) {
 
 	//update the affected meshes